@@ -0,0 +1,100 @@
+import { createElement, Fragment } from "react";
+import type { ReactNode } from "react";
+import type { AgentMatchCriteria } from "./types";
+import { useUserAgentSelector } from "./useUserAgent";
+import { matchesAgent } from "./utils/matchAgent";
+
+export interface AgentMatchProps extends AgentMatchCriteria {
+  fallback?: ReactNode;
+  children?: ReactNode;
+}
+
+export interface AgentOnlyProps {
+  fallback?: ReactNode;
+  children?: ReactNode;
+}
+
+/**
+ * -----------------------------------------------------------
+ *  Agent Match
+ * -----------------------------------------------------------
+ * Renders its children when the detected agent matches all the
+ * given criteria, otherwise the `fallback` (nothing by default).
+ *
+ * Until the agent is detected, during SSR and hydration, the
+ * criteria don't match and the `fallback` is rendered, so server
+ * HTML and the first client render are the same. Inside a
+ * `UserAgentProvider` with a server-parsed `initialAgent`, that
+ * agent is matched instead.
+ *
+ * *Type*: React Component
+ *
+ * @param props.browser - Browser name(s) to match
+ * @param props.minVersion - Minimum browser version, e.g. `'16.4'`
+ * @param props.platform - Platform(s) to match
+ * @param props.deviceType - Device type(s) to match
+ * @param props.engine - Rendering engine(s) to match
+ * @param props.fallback - Rendered when the agent doesn't match
+ * @param props.children - Rendered when the agent matches
+ *
+ * @example
+ * ```tsx
+ * <AgentMatch browser="Safari" minVersion="16.4" fallback={<LegacyPicker />}>
+ *   <DatePicker />
+ * </AgentMatch>
+ * ```
+ * -----------------------------------------------------------
+ */
+export const AgentMatch = ({ fallback, children, ...criteria }: AgentMatchProps) => {
+  const matches = useUserAgentSelector((agent) => matchesAgent(agent, criteria));
+
+  return createElement(Fragment, null, matches ? children : fallback);
+};
+
+/**
+ * -----------------------------------------------------------
+ *  Mobile Only
+ * -----------------------------------------------------------
+ * Renders its children on mobile phones only (`deviceType` is
+ * `'mobile'`), otherwise the `fallback`. Behaves like
+ * `AgentMatch` until the agent is detected.
+ *
+ * *Type*: React Component
+ *
+ * @param props.fallback - Rendered on other devices
+ * @param props.children - Rendered on mobile phones
+ *
+ * @example
+ * ```tsx
+ * <MobileOnly fallback={<Sidebar />}>
+ *   <BottomNavigation />
+ * </MobileOnly>
+ * ```
+ * -----------------------------------------------------------
+ */
+export const MobileOnly = ({ fallback, children }: AgentOnlyProps) =>
+  createElement(AgentMatch, { deviceType: "mobile", fallback }, children);
+
+/**
+ * -----------------------------------------------------------
+ *  Desktop Only
+ * -----------------------------------------------------------
+ * Renders its children on desktop computers only (`deviceType`
+ * is `'desktop'`), otherwise the `fallback`. Behaves like
+ * `AgentMatch` until the agent is detected.
+ *
+ * *Type*: React Component
+ *
+ * @param props.fallback - Rendered on other devices
+ * @param props.children - Rendered on desktop computers
+ *
+ * @example
+ * ```tsx
+ * <DesktopOnly>
+ *   <KeyboardShortcutsHint />
+ * </DesktopOnly>
+ * ```
+ * -----------------------------------------------------------
+ */
+export const DesktopOnly = ({ fallback, children }: AgentOnlyProps) =>
+  createElement(AgentMatch, { deviceType: "desktop", fallback }, children);
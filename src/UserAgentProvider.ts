@@ -0,0 +1,56 @@
+import { createContext, createElement, useState } from "react";
+import type { ReactNode } from "react";
+import type { Agent, UseUserAgentOptions } from "./types";
+import { getUserAgentStore, withInitialAgent } from "./userAgentStore";
+import type { UserAgentStore } from "./userAgentStore";
+
+/**
+ * -----------------------------------------------------------
+ *  User Agent Context
+ * -----------------------------------------------------------
+ * Holds the store of the nearest `UserAgentProvider`. The value
+ * is `undefined` when no provider is rendered, in which case
+ * `useUserAgent` uses the shared store for its own options.
+ * -----------------------------------------------------------
+ */
+export const UserAgentContext = createContext<UserAgentStore | undefined>(undefined);
+
+export interface UserAgentProviderProps {
+  options?: UseUserAgentOptions;
+  initialAgent?: Agent;
+  children?: ReactNode;
+}
+
+/**
+ * -----------------------------------------------------------
+ *  User Agent Provider
+ * -----------------------------------------------------------
+ * Scopes one set of detection options to its subtree: every
+ * `useUserAgent` call below it reads the shared store for the
+ * provider's options, regardless of the options those calls pass.
+ *
+ * The options are read once on mount, like the hook's options.
+ * Pass a server-parsed `initialAgent` to render the real agent
+ * on the server and keep hydration consistent.
+ *
+ * *Type*: React Component
+ *
+ * @param props.options - Detection options, same as for `useUserAgent`
+ * @param props.initialAgent - Agent to render on the server and during hydration
+ * @param props.children - The subtree sharing the detected agent
+ *
+ * @example
+ * ```tsx
+ * <UserAgentProvider options={{ highEntropy: true }}>
+ *   <App />
+ * </UserAgentProvider>
+ * ```
+ * -----------------------------------------------------------
+ */
+export const UserAgentProvider = ({ options, initialAgent, children }: UserAgentProviderProps) => {
+  const [store] = useState(() =>
+    withInitialAgent(getUserAgentStore(options), initialAgent ?? options?.initialAgent)
+  );
+
+  return createElement(UserAgentContext.Provider, { value: store }, children);
+};
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { getClientHintsHeaders } from '../../utils/acceptClientHints';
+
+describe('getClientHintsHeaders', () => {
+  it('should only request low-entropy hints by default', () => {
+    const headers = getClientHintsHeaders();
+
+    expect(headers).toEqual({
+      'Accept-CH': 'Sec-CH-UA, Sec-CH-UA-Mobile, Sec-CH-UA-Platform',
+      'Vary': 'Sec-CH-UA, Sec-CH-UA-Mobile, Sec-CH-UA-Platform',
+    });
+  });
+
+  it('should request the default high-entropy hints when highEntropy is enabled', () => {
+    const headers = getClientHintsHeaders({ highEntropy: true });
+
+    expect(headers['Accept-CH']).toBe(
+      'Sec-CH-UA, Sec-CH-UA-Mobile, Sec-CH-UA-Platform, Sec-CH-UA-Arch, Sec-CH-UA-Model, ' +
+        'Sec-CH-UA-Platform-Version, Sec-CH-UA-Full-Version, Sec-CH-UA-Full-Version-List'
+    );
+    expect(headers['Vary']).toBe(headers['Accept-CH']);
+  });
+
+  it('should ignore hints when highEntropy is not enabled', () => {
+    const headers = getClientHintsHeaders({ hints: ['model'] });
+
+    expect(headers['Accept-CH']).not.toContain('Sec-CH-UA-Model');
+  });
+
+  it('should not duplicate the low-entropy platform hint', () => {
+    const headers = getClientHintsHeaders({ highEntropy: true, hints: ['platform', 'model'] });
+
+    expect(headers['Accept-CH']).toBe(
+      'Sec-CH-UA, Sec-CH-UA-Mobile, Sec-CH-UA-Platform, Sec-CH-UA-Model'
+    );
+  });
+
+  it('should add Critical-CH for high-entropy hints when critical is set', () => {
+    const headers = getClientHintsHeaders({
+      highEntropy: true,
+      hints: ['model', 'platformVersion'],
+      critical: true,
+    });
+
+    expect(headers['Critical-CH']).toBe('Sec-CH-UA-Model, Sec-CH-UA-Platform-Version');
+  });
+
+  it('should delegate high-entropy hints to third-party origins', () => {
+    const headers = getClientHintsHeaders({
+      highEntropy: true,
+      hints: ['architecture'],
+      delegateTo: ['https://a.example', 'https://b.example'],
+    });
+
+    expect(headers['Permissions-Policy']).toBe(
+      'ch-ua-arch=(self "https://a.example" "https://b.example")'
+    );
+    expect(headers['Critical-CH']).toBeUndefined();
+  });
+});
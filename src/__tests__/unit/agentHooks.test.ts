@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { createElement } from 'react';
+import type { ReactNode } from 'react';
+import { renderToString } from 'react-dom/server';
+import {
+  useIsMobile,
+  useBrowser,
+  useOS,
+  useRenderingEngine,
+  useDeviceType,
+} from '../../agentHooks';
+import { clearUserAgentStores } from '../../userAgentStore';
+import { UserAgentProvider } from '../../UserAgentProvider';
+import type { Agent } from '../../types';
+
+/**
+ * Unit Tests for the convenience hooks
+ * 
+ * These tests verify the detected values, the defaults used before detection
+ * and that the hooks read the agent shared through the provider.
+ */
+
+const setUserAgent = (userAgent: string) => {
+  Object.defineProperty(window.navigator, 'userAgent', {
+    value: userAgent,
+    configurable: true,
+  });
+};
+
+const IPHONE_SAFARI =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+
+describe('Convenience hooks', () => {
+  const originalUserAgent = window.navigator.userAgent;
+
+  afterEach(() => {
+    clearUserAgentStores();
+    setUserAgent(originalUserAgent);
+  });
+
+  it('should return the detected values', () => {
+    setUserAgent(IPHONE_SAFARI);
+
+    const { result } = renderHook(() => ({
+      isMobile: useIsMobile(),
+      browser: useBrowser(),
+      os: useOS(),
+      engine: useRenderingEngine(),
+      deviceType: useDeviceType(),
+    }));
+
+    expect(result.current.isMobile).toBe(true);
+    expect(result.current.browser).toEqual({ name: 'Safari', version: '17.0' });
+    expect(result.current.os).toBe('iOS');
+    expect(result.current.engine.name).toBe('WebKit');
+    expect(result.current.deviceType).toBe('mobile');
+  });
+
+  it('should return defaults during server rendering', () => {
+    const values: unknown[] = [];
+    const Component = () => {
+      values.push(useIsMobile(), useBrowser(), useOS(), useRenderingEngine(), useDeviceType());
+      return null;
+    };
+
+    renderToString(createElement(Component));
+
+    expect(values).toEqual([
+      false,
+      { name: 'Unknown', version: '' },
+      'Unknown',
+      { name: 'Unknown', version: '' },
+      'desktop',
+    ]);
+  });
+
+  it('should read the agent shared by the provider', () => {
+    const initialAgent: Agent = {
+      browser: { name: 'Firefox', version: '121' },
+      device: { isMobile: false, platform: 'Linux', device: 'Desktop PC' },
+      renderingEngine: { name: 'Gecko', version: '121' },
+      detectionMethod: 'user-agent-string',
+      deviceType: 'desktop',
+    };
+    const wrapper = ({ children }: { children?: ReactNode }) =>
+      createElement(UserAgentProvider, { initialAgent }, children);
+    const Component = () => createElement('span', null, `${useBrowser().name} ${useOS()}`);
+
+    const html = renderToString(createElement(wrapper, null, createElement(Component)));
+
+    expect(html).toContain('Firefox Linux');
+  });
+});
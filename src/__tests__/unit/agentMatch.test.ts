@@ -0,0 +1,122 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server';
+import { AgentMatch, MobileOnly, DesktopOnly } from '../../AgentMatch';
+import { UserAgentProvider } from '../../UserAgentProvider';
+import { clearUserAgentStores } from '../../userAgentStore';
+import { matchesAgent } from '../../utils/matchAgent';
+import type { Agent } from '../../types';
+
+/**
+ * Unit Tests for the conditional rendering components
+ * 
+ * These tests verify the criteria matching, the fallback rendering and the
+ * behavior before the agent is detected.
+ */
+
+const setUserAgent = (userAgent: string) => {
+  Object.defineProperty(window.navigator, 'userAgent', {
+    value: userAgent,
+    configurable: true,
+  });
+};
+
+const IPHONE_SAFARI =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+
+const SAFARI_AGENT: Agent = {
+  browser: { name: 'Safari', version: '16.4' },
+  device: { isMobile: true, platform: 'iOS', device: 'iPhone' },
+  renderingEngine: { name: 'WebKit', version: '605.1.15' },
+  detectionMethod: 'user-agent-string',
+  deviceType: 'mobile',
+};
+
+describe('matchesAgent', () => {
+  it('should match when every criterion matches', () => {
+    expect(matchesAgent(SAFARI_AGENT, {
+      browser: 'Safari',
+      minVersion: '16.4',
+      platform: 'iOS',
+      deviceType: 'mobile',
+      engine: 'WebKit',
+    })).toBe(true);
+  });
+
+  it('should match any value of an array criterion', () => {
+    expect(matchesAgent(SAFARI_AGENT, { browser: ['Chrome', 'Safari'] })).toBe(true);
+    expect(matchesAgent(SAFARI_AGENT, { deviceType: ['tablet', 'desktop'] })).toBe(false);
+  });
+
+  it('should compare the browser version numerically', () => {
+    expect(matchesAgent(SAFARI_AGENT, { minVersion: '16' })).toBe(true);
+    expect(matchesAgent(SAFARI_AGENT, { minVersion: '16.10' })).toBe(false);
+    expect(matchesAgent(SAFARI_AGENT, { minVersion: '9.1' })).toBe(true);
+  });
+
+  it('should not match an undetected agent', () => {
+    const ssrAgent: Agent = { detectionMethod: 'ssr', status: 'idle' };
+
+    expect(matchesAgent(ssrAgent, { deviceType: 'desktop' })).toBe(false);
+    expect(matchesAgent(ssrAgent, { minVersion: '1' })).toBe(false);
+    expect(matchesAgent(ssrAgent, {})).toBe(true);
+  });
+});
+
+describe('AgentMatch', () => {
+  const originalUserAgent = window.navigator.userAgent;
+
+  afterEach(() => {
+    clearUserAgentStores();
+    setUserAgent(originalUserAgent);
+  });
+
+  it('should render children for a matching agent', () => {
+    setUserAgent(IPHONE_SAFARI);
+
+    render(createElement(AgentMatch, { browser: 'Safari', minVersion: '17', fallback: 'old' }, 'new'));
+
+    expect(screen.getByText('new')).toBeTruthy();
+  });
+
+  it('should render the fallback for a non-matching agent', () => {
+    setUserAgent(IPHONE_SAFARI);
+
+    render(createElement(AgentMatch, { engine: 'Blink', fallback: 'fallback' }, 'children'));
+
+    expect(screen.getByText('fallback')).toBeTruthy();
+    expect(screen.queryByText('children')).toBeNull();
+  });
+
+  it('should render MobileOnly and DesktopOnly by device type', () => {
+    setUserAgent(IPHONE_SAFARI);
+
+    render(createElement('div', null,
+      createElement('span', null, createElement(MobileOnly, null, 'mobile')),
+      createElement('span', null, createElement(DesktopOnly, { fallback: 'not desktop' }, 'desktop'))
+    ));
+
+    expect(screen.getByText('mobile')).toBeTruthy();
+    expect(screen.getByText('not desktop')).toBeTruthy();
+    expect(screen.queryByText('desktop')).toBeNull();
+  });
+
+  it('should render the fallback during server rendering', () => {
+    const html = renderToString(
+      createElement(DesktopOnly, { fallback: 'fallback' }, 'children')
+    );
+
+    expect(html).toBe('fallback');
+  });
+
+  it('should match the initial agent of the provider during server rendering', () => {
+    const html = renderToString(
+      createElement(UserAgentProvider, { initialAgent: SAFARI_AGENT },
+        createElement(MobileOnly, { fallback: 'fallback' }, 'children')
+      )
+    );
+
+    expect(html).toBe('children');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { parseBot } from '../../detectors/bot';
+import { parseUserAgent } from '../../detectors/userAgentString';
+import { parseClientHintsHeaders } from '../../detectors/clientHintsHeaders';
+import { detectAgent } from '../../detectors/agent';
+import type { Agent } from '../../types';
+
+/**
+ * Unit Tests for Bot Detection
+ * 
+ * These tests verify bot names and categories for real crawler User-Agent
+ * strings, and that regular browsers are not reported as bots.
+ */
+
+describe('Bot Detection', () => {
+  it('should detect search engine crawlers', () => {
+    expect(parseBot('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)'))
+      .toEqual({ name: 'Googlebot', category: 'search' });
+    expect(parseBot('Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; bingbot/2.0; +http://www.bing.com/bingbot.htm) Chrome/116.0.1938.76 Safari/537.36'))
+      .toEqual({ name: 'Bingbot', category: 'search' });
+    expect(parseBot('Mozilla/5.0 (compatible; YandexBot/3.0; +http://yandex.com/bots)')?.category).toBe('search');
+  });
+
+  it('should detect social link preview fetchers', () => {
+    expect(parseBot('facebookexternalhit/1.1 (+http://www.facebook.com/externalhit_uatext.php)'))
+      .toEqual({ name: 'facebookexternalhit', category: 'social-preview' });
+    expect(parseBot('Slackbot-LinkExpanding 1.0 (+https://api.slack.com/robots)'))
+      .toEqual({ name: 'Slackbot', category: 'social-preview' });
+    expect(parseBot('Twitterbot/1.0')).toEqual({ name: 'Twitterbot', category: 'social-preview' });
+  });
+
+  it('should detect monitoring agents', () => {
+    expect(parseBot('Mozilla/5.0+(compatible; UptimeRobot/2.0; http://www.uptimerobot.com/)'))
+      .toEqual({ name: 'UptimeRobot', category: 'monitor' });
+  });
+
+  it('should detect AI crawlers', () => {
+    expect(parseBot('Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko); compatible; GPTBot/1.2; +https://openai.com/gptbot'))
+      .toEqual({ name: 'GPTBot', category: 'ai-crawler' });
+    expect(parseBot('Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; ClaudeBot/1.0; +claudebot@anthropic.com)'))
+      .toEqual({ name: 'ClaudeBot', category: 'ai-crawler' });
+    expect(parseBot('CCBot/2.0 (https://commoncrawl.org/faq/)')).toEqual({ name: 'CCBot', category: 'ai-crawler' });
+  });
+
+  it('should detect HTTP client libraries', () => {
+    expect(parseBot('curl/8.4.0')).toEqual({ name: 'curl', category: 'http-library' });
+    expect(parseBot('python-requests/2.31.0')).toEqual({ name: 'python-requests', category: 'http-library' });
+    expect(parseBot('Go-http-client/1.1')).toEqual({ name: 'Go-http-client', category: 'http-library' });
+  });
+
+  it('should not report regular browsers as bots', () => {
+    expect(parseBot('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36')).toBeUndefined();
+    expect(parseBot('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1')).toBeUndefined();
+    expect(parseBot('')).toBeUndefined();
+  });
+
+  it('should keep detecting the browser of a rendering crawler', () => {
+    const agent = parseUserAgent('Mozilla/5.0 (Linux; Android 6.0.1; Nexus 5X Build/MMB29P) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.6099.109 Mobile Safari/537.36 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)');
+
+    expect(agent.bot).toEqual({ name: 'Googlebot', category: 'search' });
+    expect(agent.browser?.name).toBe('Chrome');
+  });
+
+  it('should detect bots from the User-Agent header alongside Client Hints', () => {
+    const agent = parseClientHintsHeaders({
+      'sec-ch-ua': '"Chromium";v="120", "Google Chrome";v="120"',
+      'sec-ch-ua-mobile': '?0',
+      'sec-ch-ua-platform': '"Linux"',
+      'user-agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko; compatible; Googlebot/2.1; +http://www.google.com/bot.html) Chrome/120.0.0.0 Safari/537.36',
+    });
+
+    expect(agent.detectionMethod).toBe('client-hints');
+    expect(agent.bot?.name).toBe('Googlebot');
+  });
+
+  describe('in the browser', () => {
+    const originalUserAgent = window.navigator.userAgent;
+
+    afterEach(() => {
+      Object.defineProperty(window.navigator, 'userAgent', {
+        value: originalUserAgent,
+        configurable: true,
+      });
+    });
+
+    it('should detect bots from navigator.userAgent', () => {
+      Object.defineProperty(window.navigator, 'userAgent', {
+        value: 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+        configurable: true,
+      });
+
+      const agent = detectAgent() as Agent;
+
+      expect(agent.bot).toEqual({ name: 'Googlebot', category: 'search' });
+    });
+  });
+});
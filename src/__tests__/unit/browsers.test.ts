@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { detectBrowser } from "../../detectors/userAgentString";
+import { extractBrowserFromBrands } from "../../detectors/clientHints";
 
 describe("Browser Detection - Specific Browsers", () => {
   describe("Edge Chromium", () => {
@@ -118,7 +119,18 @@ describe("Browser Detection - Specific Browsers", () => {
 
       expect(result).toBeDefined();
       expect(result?.name).toBe("Opera12-");
-      expect(result?.version).toBe("9.80");
+      expect(result?.version).toBe("12.18");
+    });
+
+    it("should fall back to the Opera/ token before Opera 10", () => {
+      const mockNavigator = {
+        userAgent: "Opera/9.64 (Windows NT 5.1; U; en) Presto/2.1.1",
+      } as Navigator;
+
+      const result = detectBrowser(mockNavigator);
+
+      expect(result?.name).toBe("Opera12-");
+      expect(result?.version).toBe("9.64");
     });
 
     it("should detect EdgeHTML-based Edge (legacy)", () => {
@@ -129,9 +141,44 @@ describe("Browser Detection - Specific Browsers", () => {
 
       const result = detectBrowser(mockNavigator);
 
-      // EdgeHTML Edge doesn't have Edg/ pattern, so it might be detected as Chrome
-      // or undefined depending on implementation
-      expect(result).toBeDefined();
+      expect(result?.name).toBe("Edge Legacy");
+      expect(result?.version).toBe("18.17763");
+    });
+
+    it.each([
+      [
+        "Mozilla/5.0 (Windows NT 10.0; WOW64; Trident/7.0; rv:11.0) like Gecko",
+        "11.0",
+      ],
+      [
+        "Mozilla/5.0 (compatible; MSIE 10.0; Windows NT 6.2; Trident/6.0)",
+        "10.0",
+      ],
+      [
+        "Mozilla/5.0 (compatible; MSIE 9.0; Windows NT 6.1; Trident/5.0)",
+        "9.0",
+      ],
+      // IE mode in Edge / Compatibility View reports MSIE 7.0
+      [
+        "Mozilla/4.0 (compatible; MSIE 7.0; Windows NT 10.0; WOW64; Trident/7.0; .NET4.0C; .NET4.0E)",
+        "11.0",
+      ],
+      [
+        "Mozilla/4.0 (compatible; MSIE 6.0; Windows NT 5.1; SV1)",
+        "6.0",
+      ],
+    ])("should detect Internet Explorer in %s", (userAgent, version) => {
+      const result = detectBrowser({ userAgent } as Navigator);
+
+      expect(result).toEqual({ name: "Internet Explorer", version });
+    });
+
+    it("should not mistake Opera spoofing MSIE for Internet Explorer", () => {
+      const result = detectBrowser({
+        userAgent: "Mozilla/4.0 (compatible; MSIE 6.0; Windows NT 5.1; en) Opera 8.54",
+      } as Navigator);
+
+      expect(result).toEqual({ name: "Opera12-", version: "8.54" });
     });
   });
 
@@ -173,4 +220,157 @@ describe("Browser Detection - Specific Browsers", () => {
       expect(result?.name).toBe("Vivaldi");
     });
   });
+
+  describe("iOS Browsers", () => {
+    it.each([
+      [
+        "Chrome",
+        "120.0.6099.119",
+        "Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/120.0.6099.119 Mobile/15E148 Safari/604.1",
+      ],
+      [
+        "Firefox",
+        "121.0",
+        "Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) FxiOS/121.0 Mobile/15E148 Safari/605.1.15",
+      ],
+      [
+        "Edge",
+        "120.2210.126",
+        "Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 EdgiOS/120.2210.126 Mobile/15E148 Safari/605.1.15",
+      ],
+      [
+        "Opera",
+        "4.5.1",
+        "Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 OPT/4.5.1 Mobile/15E148 Safari/604.1",
+      ],
+      [
+        "DuckDuckGo",
+        "17",
+        "Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Ddg/17 Safari/604.1",
+      ],
+    ])("should detect %s on iOS with its own version", (name, version, userAgent) => {
+      const result = detectBrowser({ userAgent } as Navigator);
+
+      expect(result?.name).toBe(name);
+      expect(result?.version).toBe(version);
+    });
+
+    it("should detect Chrome on iPad in desktop mode", () => {
+      const mockNavigator = {
+        userAgent:
+          "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/120.0.6099.119 Safari/604.1",
+      } as Navigator;
+
+      const result = detectBrowser(mockNavigator);
+
+      expect(result?.name).toBe("Chrome");
+      expect(result?.version).toBe("120.0.6099.119");
+    });
+
+    it("should detect DuckDuckGo on Android", () => {
+      const mockNavigator = {
+        userAgent:
+          "Mozilla/5.0 (Linux; Android 14) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/120.0.6099.144 Mobile DuckDuckGo/5 Safari/537.36",
+      } as Navigator;
+
+      expect(detectBrowser(mockNavigator)?.name).toBe("DuckDuckGo");
+    });
+
+    it("should still detect Safari on iOS", () => {
+      const mockNavigator = {
+        userAgent:
+          "Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1",
+      } as Navigator;
+
+      const result = detectBrowser(mockNavigator);
+
+      expect(result?.name).toBe("Safari");
+      expect(result?.version).toBe("17.2");
+    });
+  });
+
+  describe("Regional Browsers", () => {
+    it.each([
+      [
+        "Yandex",
+        "23.11.0.2419",
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/118.0.0.0 YaBrowser/23.11.0.2419 Yowser/2.5 Safari/537.36",
+      ],
+      [
+        "UC Browser",
+        "13.4.0.1306",
+        "Mozilla/5.0 (Linux; U; Android 10; en-US; SM-A505F Build/QP1A.190711.020) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/78.0.3904.108 UCBrowser/13.4.0.1306 Mobile Safari/537.36",
+      ],
+      [
+        "Huawei Browser",
+        "14.0.1.301",
+        "Mozilla/5.0 (Linux; Android 10; HarmonyOS; ELS-AN00; HMSCore 6.12.0.302) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/99.0.4844.88 HuaweiBrowser/14.0.1.301 Mobile Safari/537.36",
+      ],
+      [
+        "Mi Browser",
+        "14.5.7",
+        "Mozilla/5.0 (Linux; U; Android 13; en-us; 2201117TG Build/TKQ1.221114.001) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/112.0.5615.136 Mobile Safari/537.36 XiaoMi/MiuiBrowser/14.5.7-gn",
+      ],
+      [
+        "Whale",
+        "3.24.223.21",
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Whale/3.24.223.21 Safari/537.36",
+      ],
+      [
+        "QQ Browser",
+        "14.9",
+        "Mozilla/5.0 (Linux; U; Android 12; zh-cn; PGBM10 Build/SP1A.210812.016) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/109.0.5414.86 MQQBrowser/14.9 Mobile Safari/537.36",
+      ],
+      [
+        "Opera GX",
+        "105.0.0.0",
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/119.0.0.0 Safari/537.36 OPR/105.0.0.0 (Edition GX-CN)",
+      ],
+      [
+        "Firefox Focus",
+        "8.0.15",
+        "Mozilla/5.0 (Linux; Android 7.0) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Focus/8.0.15 Chrome/77.0.3865.92 Mobile Safari/537.36",
+      ],
+    ])("should detect %s instead of Chrome", (name, version, userAgent) => {
+      const result = detectBrowser({ userAgent } as Navigator);
+
+      expect(result?.name).toBe(name);
+      expect(result?.version).toBe(version);
+    });
+
+    it("should detect Yandex from its YaBrowser Client Hints brand", () => {
+      const result = extractBrowserFromBrands([
+        { brand: "Chromium", version: "118" },
+        { brand: "YaBrowser", version: "23.11" },
+        { brand: "Not=A?Brand", version: "99" },
+        { brand: "Yowser", version: "2.5" },
+      ]);
+
+      expect(result).toEqual({ name: "Yandex", version: "23.11" });
+    });
+
+    it.each([
+      ["DuckDuckGo", "DuckDuckGo"],
+      ["Whale", "Whale"],
+      ["Opera GX", "Opera GX"],
+      ["Opera", "Opera"],
+    ])("should detect %s from the Client Hints brands", (brand, name) => {
+      const result = extractBrowserFromBrands([
+        { brand: "Not_A Brand", version: "8" },
+        { brand: "Chromium", version: "120" },
+        { brand, version: "120" },
+      ]);
+
+      expect(result?.name).toBe(name);
+    });
+
+    it("should keep detecting regular Opera without the GX edition", () => {
+      const mockNavigator = {
+        userAgent:
+          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 OPR/106.0.0.0",
+      } as Navigator;
+
+      expect(detectBrowser(mockNavigator)?.name).toBe("Opera15+");
+    });
+  });
 });
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { getBrowserslistTarget, matchesBrowserslist } from '../../utils/browserslist';
+import { parseUserAgent } from '../../detectors/userAgentString';
+import type { Agent } from '../../types';
+
+/**
+ * Unit Tests for browserslist matching
+ * 
+ * These tests verify the mapping onto browserslist IDs and the query
+ * evaluation. Queries use explicit versions so they don't depend on the
+ * usage statistics of the bundled data.
+ */
+
+const createAgent = (
+  name: NonNullable<Agent['browser']>['name'],
+  version: string,
+  platform: NonNullable<Agent['device']>['platform'],
+  overrides: Partial<Agent> = {}
+): Agent => ({
+  browser: { name, version },
+  device: {
+    isMobile: platform === 'Android' || platform === 'iOS',
+    platform,
+    device: 'Unknown',
+  },
+  detectionMethod: 'user-agent-string',
+  ...overrides,
+});
+
+describe('getBrowserslistTarget', () => {
+  it('should map desktop browsers', () => {
+    expect(getBrowserslistTarget(createAgent('Chrome', '120.0.6099.109', 'Windows')))
+      .toEqual({ id: 'chrome', version: '120.0.6099.109' });
+    expect(getBrowserslistTarget(createAgent('Edge', '120.0.0.0', 'Windows'))?.id).toBe('edge');
+    expect(getBrowserslistTarget(createAgent('Safari', '17.2', 'Mac OS'))?.id).toBe('safari');
+  });
+
+  it('should map mobile browsers by platform', () => {
+    expect(getBrowserslistTarget(createAgent('Chrome', '120', 'Android'))?.id).toBe('and_chr');
+    expect(getBrowserslistTarget(createAgent('Firefox', '121', 'Android'))?.id).toBe('and_ff');
+    expect(getBrowserslistTarget(createAgent('Samsung Internet', '23.0', 'Android'))?.id).toBe('samsung');
+  });
+
+  it('should map every iOS browser to ios_saf', () => {
+    expect(getBrowserslistTarget(createAgent('Safari', '17.2', 'iOS')))
+      .toEqual({ id: 'ios_saf', version: '17.2' });
+
+    const chromeOnIOS = createAgent('Chrome', '120', 'iOS');
+    chromeOnIOS.device!.platformVersion = '17.1';
+    expect(getBrowserslistTarget(chromeOnIOS)).toEqual({ id: 'ios_saf', version: '17.1' });
+  });
+
+  it('should use the Blink version for Chromium-based browsers', () => {
+    const vivaldi = createAgent('Vivaldi', '6.5.3206.50', 'Windows', {
+      renderingEngine: { name: 'Blink', version: '120.0.0.0' },
+    });
+
+    expect(getBrowserslistTarget(vivaldi)).toEqual({ id: 'chrome', version: '120.0.0.0' });
+  });
+
+  it('should map Opera on Android to Chrome with its Blink version', () => {
+    const operaTouch = parseUserAgent(
+      'Mozilla/5.0 (Linux; Android 10; SM-G973F) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/83.0.4103.106 Mobile Safari/537.36 OPT/2.9.0'
+    );
+    const operaForAndroid = parseUserAgent(
+      'Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.6099.144 Mobile Safari/537.36 OPR/79.6.4195.76593'
+    );
+
+    expect(getBrowserslistTarget(operaTouch)).toEqual({ id: 'and_chr', version: '83.0.4103.106' });
+    expect(getBrowserslistTarget(operaForAndroid)).toEqual({ id: 'and_chr', version: '120.0.6099.144' });
+    expect(matchesBrowserslist(operaForAndroid, 'and_chr >= 100')).toBe(true);
+  });
+
+  it('should keep the Opera version on desktop', () => {
+    const opera = parseUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 OPR/106.0.0.0'
+    );
+
+    expect(getBrowserslistTarget(opera)).toEqual({ id: 'opera', version: '106.0.0.0' });
+  });
+
+  it('should map Firefox Focus by its rendering engine', () => {
+    const webViewFocus = createAgent('Firefox Focus', '8.0.15', 'Android', {
+      renderingEngine: { name: 'Blink', version: '77.0.3865.92' },
+    });
+    const geckoViewFocus = createAgent('Firefox Focus', '8.8.0', 'Android', {
+      renderingEngine: { name: 'Gecko', version: '68.0' },
+    });
+
+    expect(getBrowserslistTarget(webViewFocus)).toEqual({ id: 'and_chr', version: '77.0.3865.92' });
+    expect(getBrowserslistTarget(geckoViewFocus)).toEqual({ id: 'and_ff', version: '68.0' });
+  });
+
+  it('should return undefined for uncovered or undetected agents', () => {
+    expect(getBrowserslistTarget(createAgent('Seamonkey', '2.53', 'Linux'))).toBeUndefined();
+    expect(getBrowserslistTarget(createAgent('Chrome', 'Unknown', 'Linux'))).toBeUndefined();
+    expect(getBrowserslistTarget({ detectionMethod: 'ssr' })).toBeUndefined();
+  });
+});
+
+describe('matchesBrowserslist', () => {
+  it('should match versions selected by the query', () => {
+    expect(matchesBrowserslist(createAgent('Chrome', '120.0.6099.109', 'Windows'), 'chrome >= 100')).toBe(true);
+    expect(matchesBrowserslist(createAgent('Chrome', '90.0.0.0', 'Windows'), 'chrome >= 100')).toBe(false);
+    expect(matchesBrowserslist(createAgent('Safari', '16.4.1', 'Mac OS'), 'safari >= 16.4')).toBe(true);
+    expect(matchesBrowserslist(createAgent('Safari', '16.3', 'Mac OS'), 'safari >= 16.4')).toBe(false);
+  });
+
+  it('should match iOS versions inside a range entry', () => {
+    expect(matchesBrowserslist(createAgent('Safari', '17.1', 'iOS'), 'ios_saf 17.0-17.1')).toBe(true);
+    expect(matchesBrowserslist(createAgent('Safari', '16.7', 'iOS'), 'ios_saf 17.0-17.1')).toBe(false);
+  });
+
+  it('should match versions newer than the browserslist data', () => {
+    const query = '> 0.5%, last 2 versions, not dead';
+
+    expect(matchesBrowserslist(createAgent('Chrome', '999.0.0.0', 'Windows'), query)).toBe(true);
+    expect(matchesBrowserslist(createAgent('Chrome', '999', 'Android'), query)).toBe(true);
+    expect(matchesBrowserslist(createAgent('Chrome', '999', 'Windows'), 'chrome >= 100')).toBe(true);
+    expect(matchesBrowserslist(createAgent('Safari', '17.2', 'iOS'), 'ios_saf 17.0-17.1')).toBe(true);
+  });
+
+  it('should not match newer versions of browsers missing from the query', () => {
+    expect(matchesBrowserslist(createAgent('Chrome', '999', 'Windows'), 'firefox >= 115')).toBe(false);
+  });
+
+  it('should match legacy Microsoft browsers', () => {
+    expect(matchesBrowserslist(createAgent('Internet Explorer', '11.0', 'Windows'), 'ie 11')).toBe(true);
+    expect(matchesBrowserslist(createAgent('Edge Legacy', '18.17763', 'Windows'), 'edge 18')).toBe(true);
+    expect(matchesBrowserslist(createAgent('Edge Legacy', '18.17763', 'Windows'), 'edge >= 79')).toBe(false);
+  });
+
+  it('should resolve mobile browser versions from the desktop data', () => {
+    expect(matchesBrowserslist(createAgent('Chrome', '120', 'Android'), 'and_chr >= 100')).toBe(true);
+    expect(matchesBrowserslist(createAgent('Chrome', '120', 'Android'), 'chrome >= 100')).toBe(false);
+  });
+
+  it('should only match the browser of the query', () => {
+    expect(matchesBrowserslist(createAgent('Firefox', '121.0', 'Windows'), 'chrome >= 100')).toBe(false);
+    expect(matchesBrowserslist(createAgent('Firefox', '121.0', 'Windows'), ['chrome >= 100', 'firefox >= 115'])).toBe(true);
+  });
+
+  it('should not match undetected agents or invalid queries', () => {
+    expect(matchesBrowserslist({ detectionMethod: 'ssr' }, 'defaults')).toBe(false);
+    expect(matchesBrowserslist(createAgent('Chrome', '120', 'Windows'), 'not a valid query')).toBe(false);
+  });
+});
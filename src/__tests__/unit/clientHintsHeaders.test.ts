@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { parseClientHintsHeaders } from '../../detectors/clientHintsHeaders';
+
+describe('parseClientHintsHeaders - Low-Entropy Headers', () => {
+  it('should detect Chrome on Windows from Sec-CH-UA headers', () => {
+    const agent = parseClientHintsHeaders({
+      'sec-ch-ua': '"Not_A Brand";v="8", "Chromium";v="120", "Google Chrome";v="120"',
+      'sec-ch-ua-mobile': '?0',
+      'sec-ch-ua-platform': '"Windows"',
+    });
+
+    expect(agent.detectionMethod).toBe('client-hints');
+    expect(agent.browser).toEqual({ name: 'Chrome', version: '120' });
+    expect(agent.device?.platform).toBe('Windows');
+    expect(agent.device?.isMobile).toBe(false);
+    expect(agent.deviceType).toBe('desktop');
+    expect(agent.status).toBe('complete');
+  });
+
+  it('should apply the same brand priority as in-browser detection', () => {
+    const agent = parseClientHintsHeaders({
+      'Sec-CH-UA': '"Chromium";v="120", "Microsoft Edge";v="120", "Not?A_Brand";v="99"',
+      'Sec-CH-UA-Mobile': '?1',
+      'Sec-CH-UA-Platform': '"Android"',
+    });
+
+    expect(agent.browser?.name).toBe('Edge');
+    expect(agent.device?.device).toBe('Android');
+    expect(agent.deviceType).toBe('mobile');
+  });
+
+  it('should accept a Fetch API Headers object', () => {
+    const headers = new Headers({
+      'Sec-CH-UA': '"Brave";v="120", "Chromium";v="120"',
+      'Sec-CH-UA-Mobile': '?0',
+      'Sec-CH-UA-Platform': '"macOS"',
+    });
+
+    const agent = parseClientHintsHeaders(headers);
+
+    expect(agent.browser?.name).toBe('Brave');
+    expect(agent.device?.platform).toBe('Mac OS');
+  });
+});
+
+describe('parseClientHintsHeaders - High-Entropy Headers', () => {
+  it('should merge high-entropy headers into the agent', () => {
+    const agent = parseClientHintsHeaders({
+      'sec-ch-ua': '"Chromium";v="120", "Google Chrome";v="120"',
+      'sec-ch-ua-mobile': '?1',
+      'sec-ch-ua-platform': '"Android"',
+      'sec-ch-ua-full-version-list': '"Chromium";v="120.0.6099.109", "Google Chrome";v="120.0.6099.109"',
+      'sec-ch-ua-model': '"Pixel 7"',
+      'sec-ch-ua-arch': '""',
+      'sec-ch-ua-platform-version': '"14.0.0"',
+    });
+
+    expect(agent.browser?.name).toBe('Chrome');
+    expect(agent.browser?.version).toBe('120.0.6099.109');
+    expect(agent.device?.model).toBe('Pixel 7');
+    expect(agent.device?.architecture).toBe('');
+    expect(agent.device?.platformVersion).toBe('14.0.0');
+  });
+
+  it('should not add high-entropy fields when only low-entropy headers are sent', () => {
+    const agent = parseClientHintsHeaders({
+      'sec-ch-ua': '"Google Chrome";v="120"',
+      'sec-ch-ua-mobile': '?0',
+      'sec-ch-ua-platform': '"Linux"',
+    });
+
+    expect(agent.device).toEqual({ isMobile: false, platform: 'Linux', device: 'Desktop PC' });
+  });
+});
+
+describe('parseClientHintsHeaders - User-Agent Fallback', () => {
+  it('should fall back to the User-Agent header when Sec-CH-UA is absent', () => {
+    const agent = parseClientHintsHeaders({
+      'user-agent': 'Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0',
+    });
+
+    expect(agent.detectionMethod).toBe('user-agent-string');
+    expect(agent.browser?.name).toBe('Firefox');
+    expect(agent.renderingEngine?.name).toBe('Gecko');
+  });
+
+  it('should not throw when no headers are present', () => {
+    expect(() => parseClientHintsHeaders({})).not.toThrow();
+    expect(parseClientHintsHeaders({}).browser).toBeUndefined();
+  });
+});
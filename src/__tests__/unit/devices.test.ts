@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { detectDeviceFromUA, isIPad, isAndroidTablet } from '../../detectors/device';
+import { detectDeviceFromUA, detectDeviceFromClientHints, isIPad, isAndroidTablet } from '../../detectors/device';
 
 /**
  * Unit Tests for Device Detection
@@ -265,3 +265,108 @@ describe('Chrome OS Detection', () => {
     });
   });
 });
+
+describe('OS Version Detection', () => {
+  it.each([
+    ['Mozilla/5.0 (Windows NT 6.1; Win64; x64; rv:109.0) Gecko/20100101 Firefox/115.0', '6.1', false],
+    ['Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:121.0) Gecko/20100101 Firefox/121.0', '10.0', true],
+    ['Mozilla/5.0 (Macintosh; Intel Mac OS X 10_14_6) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/14.1.2 Safari/605.1.15', '10.14.6', false],
+    ['Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Safari/605.1.15', '10.15.7', true],
+    ['Mozilla/5.0 (Macintosh; Intel Mac OS X 10.15; rv:121.0) Gecko/20100101 Firefox/121.0', '10.15', true],
+    ['Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1', '17.2', false],
+    ['Mozilla/5.0 (iPad; CPU OS 16_4_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.4 Mobile/15E148 Safari/604.1', '16.4.1', false],
+    ['Mozilla/5.0 (iPhone; CPU iPhone OS 18_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/26.0 Mobile/15E148 Safari/604.1', '18.6', true],
+    ['Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.6099.144 Mobile Safari/537.36', '14', false],
+    ['Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36', '10', true],
+    ['Mozilla/5.0 (X11; CrOS x86_64 15633.69.0) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/119.0.6045.212 Safari/537.36', '15633.69.0', false],
+    ['Mozilla/5.0 (X11; CrOS x86_64 14541.0.0) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36', '14541.0.0', true],
+  ])('should extract the OS version from %s', (userAgent, platformVersion, platformVersionFrozen) => {
+    const deviceInfo = detectDeviceFromUA(createMockNavigator(userAgent));
+
+    expect(deviceInfo?.platformVersion).toBe(platformVersion);
+    expect(deviceInfo?.platformVersionFrozen).toBe(platformVersionFrozen);
+  });
+
+  it('should mark the Mac OS version of iPads in desktop mode as frozen', () => {
+    const userAgent = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Safari/605.1.15';
+    const deviceInfo = detectDeviceFromUA(createMockNavigator(userAgent, 5));
+
+    expect(deviceInfo?.platform).toBe('iOS');
+    expect(deviceInfo?.platformVersion).toBe('10.15.7');
+    expect(deviceInfo?.platformVersionFrozen).toBe(true);
+  });
+
+  it('should leave the OS version undefined when the UA has none', () => {
+    const userAgent = 'Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0';
+    const deviceInfo = detectDeviceFromUA(createMockNavigator(userAgent));
+
+    expect(deviceInfo?.platformVersion).toBeUndefined();
+    expect(deviceInfo?.platformVersionFrozen).toBeUndefined();
+  });
+});
+
+describe('Additional Platform Detection', () => {
+  it.each([
+    ['Mozilla/5.0 (Phone; OpenHarmony 5.0) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/114.0.0.0 Safari/537.36 ArkWeb/4.1.6.1 Mobile HuaweiBrowser/5.0.4.300', 'HarmonyOS', 'Unknown', true],
+    ['Mozilla/5.0 (Tablet; OpenHarmony 5.0) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/114.0.0.0 Safari/537.36 ArkWeb/4.1.6.1', 'HarmonyOS', 'Tablet', false],
+    ['Mozilla/5.0 (Mobile; Nokia_8110_4G; rv:48.0) Gecko/48.0 Firefox/48.0 KAIOS/2.5', 'KaiOS', 'Unknown', true],
+    ['Mozilla/5.0 (SMART-TV; LINUX; Tizen 6.0) AppleWebKit/537.36 (KHTML, like Gecko) 76.0.3809.146/6.0 TV Safari/537.36', 'Tizen', 'Unknown', false],
+    ['Mozilla/5.0 (Web0S; Linux/SmartTV) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/79.0.3945.79 Safari/537.36 WebAppManager', 'webOS', 'Unknown', false],
+    ['Mozilla/5.0 (Fuchsia) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/114.0.0.0 Safari/537.36 CrKey/1.56.500000', 'Fuchsia', 'Unknown', false],
+    ['Mozilla/5.0 (X11; FreeBSD amd64; rv:121.0) Gecko/20100101 Firefox/121.0', 'FreeBSD', 'Desktop PC', false],
+    ['Mozilla/5.0 (X11; OpenBSD amd64; rv:121.0) Gecko/20100101 Firefox/121.0', 'OpenBSD', 'Desktop PC', false],
+  ])('should detect the platform of %s', (userAgent, platform, device, isMobile) => {
+    const deviceInfo = detectDeviceFromUA(createMockNavigator(userAgent));
+
+    expect(deviceInfo?.platform).toBe(platform);
+    expect(deviceInfo?.device).toBe(device);
+    expect(deviceInfo?.isMobile).toBe(isMobile);
+  });
+
+  it('should keep Android-compatible HarmonyOS on Android', () => {
+    const userAgent = 'Mozilla/5.0 (Linux; Android 10; HarmonyOS; NOH-AN00; HMSCore 6.13.0.302) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/99.0.4844.88 HuaweiBrowser/14.0.5.303 Mobile Safari/537.36';
+    const deviceInfo = detectDeviceFromUA(createMockNavigator(userAgent));
+
+    expect(deviceInfo?.platform).toBe('Android');
+  });
+
+  it('should extract versions of the additional platforms', () => {
+    expect(detectDeviceFromUA(createMockNavigator('Mozilla/5.0 (Phone; OpenHarmony 5.0) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/114.0.0.0 Safari/537.36 ArkWeb/4.1.6.1 Mobile'))?.platformVersion).toBe('5.0');
+    expect(detectDeviceFromUA(createMockNavigator('Mozilla/5.0 (Mobile; Nokia_8110_4G; rv:48.0) Gecko/48.0 Firefox/48.0 KAIOS/2.5'))?.platformVersion).toBe('2.5');
+    expect(detectDeviceFromUA(createMockNavigator('Mozilla/5.0 (SMART-TV; LINUX; Tizen 6.0) AppleWebKit/537.36 (KHTML, like Gecko) TV Safari/537.36'))?.platformVersion).toBe('6.0');
+  });
+
+  it.each([
+    ['Mozilla/5.0 (X11; Ubuntu; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0', 'Ubuntu'],
+    ['Mozilla/5.0 (X11; Fedora; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0', 'Fedora'],
+    ['Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Ubuntu Chromium/80.0.3987.87 Chrome/80.0.3987.87 Safari/537.36', 'Ubuntu'],
+    ['Mozilla/5.0 (X11; Linux Mint; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0', 'Linux Mint'],
+  ])('should detect the Linux distribution of %s', (userAgent, distribution) => {
+    const deviceInfo = detectDeviceFromUA(createMockNavigator(userAgent));
+
+    expect(deviceInfo?.platform).toBe('Linux');
+    expect(deviceInfo?.distribution).toBe(distribution);
+  });
+
+  it('should leave the distribution undefined for generic Linux UAs', () => {
+    const userAgent = 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+    expect(detectDeviceFromUA(createMockNavigator(userAgent))?.distribution).toBeUndefined();
+  });
+
+  it.each([
+    ['HarmonyOS', 'HarmonyOS'],
+    ['OpenHarmony', 'HarmonyOS'],
+    ['KaiOS', 'KaiOS'],
+    ['Tizen', 'Tizen'],
+    ['webOS', 'webOS'],
+    ['Fuchsia', 'Fuchsia'],
+    ['FreeBSD', 'FreeBSD'],
+    ['OpenBSD', 'OpenBSD'],
+    ['Chromium OS', 'Chrome OS'],
+  ])('should map the Client Hints platform %s to %s', (clientHintsPlatform, platform) => {
+    const deviceInfo = detectDeviceFromClientHints({ mobile: false, platform: clientHintsPlatform });
+
+    expect(deviceInfo.platform).toBe(platform);
+  });
+});
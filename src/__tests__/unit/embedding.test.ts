@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { detectEmbedding, parseEmbedding } from '../../detectors/embedding';
+import { parseUserAgent } from '../../detectors/userAgentString';
+import { getBrowserslistTarget } from '../../utils/browserslist';
+
+/**
+ * Unit Tests for WebView and TWA Detection
+ * 
+ * These tests verify the embedding classification from User-Agent strings,
+ * and the referrer and display mode checks for Custom Tabs and TWAs.
+ */
+
+const ANDROID_CHROME = 'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.6099.144 Mobile Safari/537.36';
+const ANDROID_WEBVIEW = 'Mozilla/5.0 (Linux; Android 14; Pixel 8 Build/UD1A.230803.041; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/120.0.6099.144 Mobile Safari/537.36';
+const ANDROID_LEGACY_WEBVIEW = 'Mozilla/5.0 (Linux; Android 4.4.4; Nexus 5 Build/KTU84P) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/33.0.0.0 Mobile Safari/537.36';
+const ANDROID_DUCKDUCKGO = 'Mozilla/5.0 (Linux; Android 14) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/120.0.6099.144 Mobile DuckDuckGo/5 Safari/537.36';
+const ANDROID_UC_BROWSER = 'Mozilla/5.0 (Linux; U; Android 10; en-US; SM-A505F Build/QP1A.190711.020) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/78.0.3904.108 UCBrowser/13.4.0.1306 Mobile Safari/537.36';
+const IOS_SAFARI = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const IOS_WEBVIEW = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148';
+const MAC_WEBVIEW = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko)';
+
+describe('parseEmbedding', () => {
+  it('should detect Android System WebView', () => {
+    expect(parseEmbedding(ANDROID_WEBVIEW)).toBe('android-webview');
+    expect(parseEmbedding(ANDROID_LEGACY_WEBVIEW)).toBe('android-webview');
+  });
+
+  it('should detect iOS WebViews', () => {
+    expect(parseEmbedding(IOS_WEBVIEW)).toBe('ios-webview');
+    // iPadOS WebViews use the Mac User-Agent
+    expect(parseEmbedding(MAC_WEBVIEW, 5)).toBe('ios-webview');
+  });
+
+  it('should report regular browsers as browser', () => {
+    expect(parseEmbedding(ANDROID_CHROME)).toBe('browser');
+    expect(parseEmbedding(IOS_SAFARI)).toBe('browser');
+    expect(parseEmbedding(MAC_WEBVIEW)).toBe('browser');
+  });
+
+  it('should not mistake standalone browsers with the WebView format for WebViews', () => {
+    expect(parseEmbedding(ANDROID_DUCKDUCKGO)).toBe('browser');
+    expect(parseEmbedding(ANDROID_UC_BROWSER)).toBe('browser');
+    expect(getBrowserslistTarget(parseUserAgent(ANDROID_DUCKDUCKGO))?.id).toBe('and_chr');
+    expect(getBrowserslistTarget(parseUserAgent(ANDROID_UC_BROWSER))?.id).toBe('and_uc');
+  });
+
+  it('should return undefined for empty User-Agents', () => {
+    expect(parseEmbedding('')).toBeUndefined();
+  });
+
+  it('should be part of the parsed agent', () => {
+    expect(parseUserAgent(ANDROID_WEBVIEW).embedding).toBe('android-webview');
+    expect(parseUserAgent(IOS_SAFARI).embedding).toBe('browser');
+  });
+
+  it('should map Android System WebView to the android browserslist ID', () => {
+    expect(getBrowserslistTarget(parseUserAgent(ANDROID_WEBVIEW)))
+      .toEqual({ id: 'android', version: '120.0.6099.144' });
+  });
+});
+
+describe('detectEmbedding', () => {
+  const originalMatchMedia = window.matchMedia;
+
+  const setReferrer = (referrer: string) => {
+    Object.defineProperty(document, 'referrer', { value: referrer, configurable: true });
+  };
+
+  const setStandalone = (standalone: boolean) => {
+    window.matchMedia = ((query: string) => ({
+      matches: standalone && query === '(display-mode: standalone)',
+    })) as typeof window.matchMedia;
+  };
+
+  const navigatorWith = (userAgent: string) =>
+    ({ userAgent, maxTouchPoints: 5 }) as Navigator;
+
+  afterEach(() => {
+    setReferrer('');
+    window.matchMedia = originalMatchMedia;
+  });
+
+  it('should detect Custom Tabs from the android-app referrer', () => {
+    setReferrer('android-app://com.example.app/');
+    setStandalone(false);
+
+    expect(detectEmbedding(navigatorWith(ANDROID_CHROME))).toBe('custom-tab');
+  });
+
+  it('should detect TWAs from the referrer and standalone display mode', () => {
+    setReferrer('android-app://com.example.app/');
+    setStandalone(true);
+
+    expect(detectEmbedding(navigatorWith(ANDROID_CHROME))).toBe('twa');
+  });
+
+  it('should prefer the WebView classification over the referrer', () => {
+    setReferrer('android-app://com.example.app/');
+
+    expect(detectEmbedding(navigatorWith(ANDROID_WEBVIEW))).toBe('android-webview');
+  });
+
+  it('should report a regular tab without android-app referrer', () => {
+    setReferrer('https://example.com/');
+
+    expect(detectEmbedding(navigatorWith(ANDROID_CHROME))).toBe('browser');
+  });
+});
@@ -49,23 +49,125 @@ describe("Rendering Engine Detection - Modern Edge", () => {
   });
 
   describe("Legacy Edge (EdgeHTML-based)", () => {
-    it("should handle legacy EdgeHTML Edge gracefully", () => {
+    it("should map legacy Edge to EdgeHTML", () => {
       const mockNavigator = {
         userAgent:
           "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/64.0.3282.140 Safari/537.36 Edge/18.17763",
       } as Navigator;
 
       const browser = detectBrowser(mockNavigator);
-      
-      // Legacy Edge might be detected as Chrome or undefined
-      // The important thing is we don't crash
-      expect(browser).toBeDefined();
-      
-      if (browser) {
-        const engine = detectRenderingEngine(browser.name, mockNavigator);
-        // Should not be EdgeHTML since we removed that
-        expect(engine?.name).not.toBe("EdgeHTML");
-      }
+      const engine = detectRenderingEngine(browser?.name, mockNavigator);
+
+      expect(browser?.name).toBe("Edge Legacy");
+      expect(engine).toEqual({ name: "EdgeHTML", version: "18.17763" });
     });
   });
 });
+
+describe("Rendering Engine Detection - Legacy Engines", () => {
+  it.each([
+    [
+      "Mozilla/5.0 (Windows NT 10.0; WOW64; Trident/7.0; rv:11.0) like Gecko",
+      { name: "Trident", version: "7.0" },
+    ],
+    [
+      "Mozilla/5.0 (compatible; MSIE 10.0; Windows NT 6.2; Trident/6.0)",
+      { name: "Trident", version: "6.0" },
+    ],
+    [
+      "Mozilla/5.0 (Mobile; Windows Phone 8.1; Android 4.0; ARM; Trident/7.0; Touch; rv:11.0; IEMobile/11.0; NOKIA; Lumia 635) like iPhone OS 7_0_3 Mac OS X AppleWebKit/537 (KHTML, like Gecko) Mobile Safari/537",
+      { name: "Trident", version: "7.0" },
+    ],
+    [
+      "Mozilla/5.0 (Windows Phone 10.0; Android 6.0.1; Microsoft; Lumia 950) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/52.0.2743.116 Mobile Safari/537.36 Edge/15.15063",
+      { name: "EdgeHTML", version: "15.15063" },
+    ],
+    [
+      "Opera/9.80 (Windows NT 6.1; WOW64) Presto/2.12.388 Version/12.18",
+      { name: "Presto", version: "2.12.388" },
+    ],
+  ])("should detect the engine of %s", (userAgent, expected) => {
+    const mockNavigator = { userAgent } as Navigator;
+    const browser = detectBrowser(mockNavigator);
+
+    const engine = detectRenderingEngine(browser?.name, mockNavigator);
+
+    expect(engine).toEqual(expected);
+  });
+});
+
+describe("Rendering Engine Detection - iOS", () => {
+  it.each([
+    "Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/120.0.6099.119 Mobile/15E148 Safari/604.1",
+    "Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) FxiOS/121.0 Mobile/15E148 Safari/605.1.15",
+    "Mozilla/5.0 (iPad; CPU OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 EdgiOS/120.2210.126 Mobile/15E148 Safari/605.1.15",
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/120.0.6099.119 Safari/604.1",
+  ])("should map every iOS browser to WebKit: %s", (userAgent) => {
+    const mockNavigator = { userAgent } as Navigator;
+    const browser = detectBrowser(mockNavigator);
+
+    const engine = detectRenderingEngine(browser?.name, mockNavigator);
+
+    expect(engine).toEqual({ name: "WebKit", version: "605.1.15" });
+  });
+
+  it("should keep Blink for Chrome outside of iOS", () => {
+    const mockNavigator = {
+      userAgent:
+        "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.6099.144 Mobile Safari/537.36",
+    } as Navigator;
+
+    expect(detectRenderingEngine("Chrome", mockNavigator)?.name).toBe("Blink");
+  });
+});
+
+describe("Rendering Engine Detection - Regional Browsers", () => {
+  it.each([
+    ["Yandex", "Blink"],
+    ["UC Browser", "Blink"],
+    ["Huawei Browser", "Blink"],
+    ["Mi Browser", "Blink"],
+    ["Whale", "Blink"],
+    ["QQ Browser", "Blink"],
+    ["Opera GX", "Blink"],
+    ["DuckDuckGo", "Blink"],
+  ] as const)("should map %s to %s", (browser, engine) => {
+    expect(detectRenderingEngine(browser)?.name).toBe(engine);
+  });
+
+  it.each([
+    [
+      "Mozilla/5.0 (Linux; Android 7.0) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Focus/8.0.15 Chrome/77.0.3865.92 Mobile Safari/537.36",
+      { name: "Blink", version: "77.0.3865.92" },
+    ],
+    [
+      "Mozilla/5.0 (Android 10; Mobile; rv:68.0) Gecko/68.0 Firefox/68.0 Focus/8.8.0",
+      { name: "Gecko", version: "68.0" },
+    ],
+  ])("should take the Firefox Focus engine from %s", (userAgent, expected) => {
+    const mockNavigator = { userAgent } as Navigator;
+
+    expect(detectRenderingEngine(detectBrowser(mockNavigator)?.name, mockNavigator))
+      .toEqual(expected);
+  });
+
+  it("should report Blink for Opera Touch on Android", () => {
+    const mockNavigator = {
+      userAgent:
+        "Mozilla/5.0 (Linux; Android 10; SM-G973F) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/83.0.4103.106 Mobile Safari/537.36 OPT/2.5.0",
+    } as Navigator;
+
+    expect(detectRenderingEngine(detectBrowser(mockNavigator)?.name, mockNavigator))
+      .toEqual({ name: "Blink", version: "83.0.4103.106" });
+  });
+
+  it("should report WebKit for DuckDuckGo on macOS", () => {
+    const mockNavigator = {
+      userAgent:
+        "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Ddg/17.2 Safari/605.1.15",
+    } as Navigator;
+
+    expect(detectRenderingEngine(detectBrowser(mockNavigator)?.name, mockNavigator))
+      .toEqual({ name: "WebKit", version: "605.1.15" });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { detectFromClientHints } from '../../detectors/clientHints';
+import { clearUserAgentStores, getUserAgentStore } from '../../userAgentStore';
+import type { NavigatorUAData } from '../../types';
+
+/**
+ * Unit Tests for configurable and abortable high-entropy requests
+ */
+
+const pendingUserAgentData = (): NavigatorUAData => ({
+  brands: [{ brand: 'Google Chrome', version: '120' }],
+  mobile: false,
+  platform: 'Windows',
+  // Never settles, like an ignored permission prompt
+  getHighEntropyValues: vi.fn(() => new Promise<never>(() => {})),
+});
+
+describe('High-Entropy Timeout', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should fall back after the configured timeout', async () => {
+    vi.useFakeTimers();
+
+    const result = detectFromClientHints(pendingUserAgentData(), {
+      highEntropy: true,
+      timeoutMs: 100,
+    });
+    await vi.advanceTimersByTimeAsync(100);
+    const agent = await result;
+
+    expect(agent.status).toBe('failed');
+    expect(agent.error?.message).toBe('Timeout');
+    expect(agent.browser?.name).toBe('Chrome');
+  });
+
+  it('should clear the timer once the values arrive', async () => {
+    vi.useFakeTimers();
+
+    const userAgentData: NavigatorUAData = {
+      ...pendingUserAgentData(),
+      getHighEntropyValues: vi.fn(async () => ({
+        brands: [],
+        mobile: false,
+        platform: 'Windows',
+        architecture: 'x86',
+      })),
+    };
+
+    const agent = await detectFromClientHints(userAgentData, { highEntropy: true });
+
+    expect(agent.device?.architecture).toBe('x86');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
+
+describe('High-Entropy Cancellation', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    clearUserAgentStores();
+    // @ts-expect-error - Removing mocked Client Hints API
+    delete window.navigator.userAgentData;
+  });
+
+  it('should stop waiting and clear the timer when aborted', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+
+    const result = detectFromClientHints(pendingUserAgentData(), {
+      highEntropy: true,
+      signal: controller.signal,
+    });
+    controller.abort();
+    const agent = await result;
+
+    expect(agent.status).toBe('failed');
+    expect(agent.error?.name).toBe('AbortError');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should not request values with an already aborted signal', async () => {
+    const userAgentData = pendingUserAgentData();
+    const controller = new AbortController();
+    controller.abort();
+
+    const agent = await detectFromClientHints(userAgentData, {
+      highEntropy: true,
+      signal: controller.signal,
+    });
+
+    expect(agent.status).toBe('failed');
+    expect(userAgentData.getHighEntropyValues).not.toHaveBeenCalled();
+  });
+
+  it('should skip the store update for a cancelled request', async () => {
+    let resolveValues: (values: { brands: []; mobile: boolean; platform: string; model: string }) => void = () => {};
+    const getHighEntropyValues = vi.fn(
+      () => new Promise((resolve) => {
+        resolveValues = resolve;
+      })
+    );
+    Object.defineProperty(window.navigator, 'userAgentData', {
+      value: { ...pendingUserAgentData(), getHighEntropyValues },
+      configurable: true,
+    });
+
+    const store = getUserAgentStore();
+    const listener = vi.fn();
+    store.subscribe(listener);
+    const before = store.getSnapshot();
+
+    const controller = new AbortController();
+    const request = store.requestHighEntropy(['model'], { signal: controller.signal });
+    await vi.waitFor(() => {
+      expect(getHighEntropyValues).toHaveBeenCalled();
+    });
+    controller.abort();
+    resolveValues({ brands: [], mobile: false, platform: 'Windows', model: 'Surface' });
+
+    await expect(request).resolves.toBe(before);
+    expect(store.getSnapshot()).toBe(before);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should cancel the mount-time request when the last subscriber leaves', async () => {
+    const userAgentData = pendingUserAgentData();
+    Object.defineProperty(window.navigator, 'userAgentData', {
+      value: userAgentData,
+      configurable: true,
+    });
+
+    const store = getUserAgentStore({ highEntropy: true });
+    store.getSnapshot();
+    const unsubscribe = store.subscribe(() => {});
+    await vi.waitFor(() => {
+      expect(userAgentData.getHighEntropyValues).toHaveBeenCalledTimes(1);
+    });
+
+    unsubscribe();
+    // Resumed for the next subscriber
+    store.subscribe(() => {});
+
+    await vi.waitFor(() => {
+      expect(userAgentData.getHighEntropyValues).toHaveBeenCalledTimes(2);
+    });
+    expect(store.getSnapshot().status).toBe('low-entropy');
+  });
+});
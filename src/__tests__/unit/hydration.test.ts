@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server';
+import { render } from '@testing-library/react';
+import { useUserAgent } from '../../useUserAgent';
+import { UserAgentProvider } from '../../UserAgentProvider';
+import { clearUserAgentStores } from '../../userAgentStore';
+import { parseUserAgent } from '../../detectors/userAgentString';
+import { serializeAgent } from '../../utils/ssr';
+import type { Agent } from '../../types';
+
+/**
+ * Unit Tests for SSR Hydration
+ * 
+ * These tests verify that a server-parsed initialAgent is rendered on the
+ * server and reused while hydrating on the client.
+ */
+
+const serverAgent = parseUserAgent(
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1'
+);
+
+const BrowserName = ({ initialAgent }: { initialAgent?: Agent }) => {
+  const agent = useUserAgent({ initialAgent });
+  return createElement('span', null, agent.browser?.name ?? 'none');
+};
+
+const ProviderBrowserName = () => {
+  const agent = useUserAgent();
+  return createElement('span', null, agent.browser?.name ?? 'none');
+};
+
+describe('SSR Hydration', () => {
+  afterEach(() => {
+    clearUserAgentStores();
+  });
+
+  it('should render the SSR agent on the server without initialAgent', () => {
+    const Detection = () => createElement('span', null, useUserAgent().detectionMethod);
+
+    expect(renderToString(createElement(Detection))).toBe('<span>ssr</span>');
+  });
+
+  it('should render initialAgent on the server', () => {
+    const html = renderToString(createElement(BrowserName, { initialAgent: serverAgent }));
+
+    expect(html).toBe('<span>Safari</span>');
+  });
+
+  it('should render the provider initialAgent on the server', () => {
+    const html = renderToString(
+      createElement(UserAgentProvider, { initialAgent: serverAgent }, createElement(ProviderBrowserName))
+    );
+
+    expect(html).toBe('<span>Safari</span>');
+  });
+
+  it('should report initialAgent as detecting until the client detects', () => {
+    const Status = ({ initialAgent }: { initialAgent?: Agent }) =>
+      createElement('span', null, useUserAgent({ initialAgent }).status);
+
+    expect(renderToString(createElement(Status, { initialAgent: serverAgent }))).toBe('<span>detecting</span>');
+    expect(renderToString(
+      createElement(UserAgentProvider, { initialAgent: serverAgent }, createElement(Status))
+    )).toBe('<span>detecting</span>');
+    expect(renderToString(createElement(Status))).toBe('<span>idle</span>');
+  });
+
+  it('should hydrate without mismatch and switch to the detected agent', async () => {
+    const container = document.createElement('div');
+    container.innerHTML = renderToString(createElement(BrowserName, { initialAgent: serverAgent }));
+    document.body.appendChild(container);
+
+    const onRecoverableError = vi.fn();
+    render(createElement(BrowserName, { initialAgent: serverAgent }), {
+      container,
+      hydrate: true,
+      onRecoverableError,
+    });
+
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    // jsdom's User-Agent is not a known browser
+    expect(container.textContent).toBe('none');
+  });
+});
+
+describe('serializeAgent', () => {
+  it('should round-trip through JSON.parse', () => {
+    expect(JSON.parse(serializeAgent(serverAgent))).toEqual(serverAgent);
+    expect(JSON.parse(serializeAgent(serverAgent)).status).toBe('complete');
+  });
+
+  it('should keep the name and message of a detection error', () => {
+    const agent: Agent = {
+      detectionMethod: 'client-hints',
+      status: 'failed',
+      error: new TypeError('getHighEntropyValues is not a function'),
+    };
+
+    expect(JSON.parse(serializeAgent(agent))).toEqual({
+      detectionMethod: 'client-hints',
+      status: 'failed',
+      error: { name: 'TypeError', message: 'getHighEntropyValues is not a function' },
+    });
+  });
+
+  it('should escape characters that could break out of a script tag', () => {
+    const agent: Agent = {
+      device: {
+        isMobile: false,
+        platform: 'Unknown',
+        device: 'Unknown',
+        model: '</script><script>alert(1)</script> ',
+      },
+    };
+
+    const serialized = serializeAgent(agent);
+
+    expect(serialized).not.toContain('<');
+    expect(serialized).not.toContain(' ');
+    expect(JSON.parse(serialized)).toEqual(agent);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { parseInAppBrowser } from '../../detectors/inAppBrowser';
+import { parseUserAgent } from '../../detectors/userAgentString';
+import { getSystemBrowserUrl } from '../../utils/systemBrowser';
+
+/**
+ * Unit Tests for In-App Browser Detection
+ * 
+ * These tests verify the in-app browser tokens of social apps and the
+ * system browser URLs built for Android and iOS.
+ */
+
+const IOS_WEBVIEW = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148';
+const ANDROID_WEBVIEW = 'Mozilla/5.0 (Linux; Android 14; Pixel 8 Build/UD1A.230803.041; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/120.0.6099.144 Mobile Safari/537.36';
+
+describe('In-App Browser Detection', () => {
+  it('should detect Facebook', () => {
+    expect(parseInAppBrowser(`${IOS_WEBVIEW} [FBAN/FBIOS;FBAV/440.0.0.31.106;FBBV/537845233;FBDV/iPhone14,5;FBMD/iPhone;FBSN/iOS;FBSV/17.0]`))
+      .toEqual({ name: 'Facebook', version: '440.0.0.31.106' });
+    expect(parseInAppBrowser(`${ANDROID_WEBVIEW} [FB_IAB/FB4A;FBAV/441.0.0.23.105;]`)?.name).toBe('Facebook');
+  });
+
+  it('should detect Instagram before Facebook', () => {
+    expect(parseInAppBrowser(`${IOS_WEBVIEW} Instagram 309.0.0.40.113 (iPhone14,5; iOS 17_0; en_US; en; scale=3.00; 1170x2532; 536988435)`))
+      .toEqual({ name: 'Instagram', version: '309.0.0.40.113' });
+    expect(parseInAppBrowser(`${ANDROID_WEBVIEW} Instagram 309.0.0.40.113 Android (34/14; 420dpi; 1080x2400; Google; Pixel 8; shiba; shiba; en_US; 536988435) [FBAV/441.0]`)?.name)
+      .toBe('Instagram');
+  });
+
+  it('should detect TikTok', () => {
+    expect(parseInAppBrowser(`${ANDROID_WEBVIEW} trill_320104 JsSdk/1.0 NetType/WIFI Channel/googleplay AppName/musical_ly app_version/32.1.4 ByteLocale/en BytedanceWebview/d8a21c6`)?.name)
+      .toBe('TikTok');
+    expect(parseInAppBrowser(`${IOS_WEBVIEW} musical_ly_32.1.0 JsSdk/2.0 NetType/WIFI Channel/App Store ByteLocale/en Region/US`))
+      .toEqual({ name: 'TikTok', version: '32.1.0' });
+  });
+
+  it('should detect LinkedIn, WeChat, Line and Snapchat', () => {
+    expect(parseInAppBrowser(`${IOS_WEBVIEW} [LinkedInApp]/9.29.6474`)?.name).toBe('LinkedIn');
+    expect(parseInAppBrowser(`${ANDROID_WEBVIEW} MicroMessenger/8.0.43.2480(0x28002B51) WeChat/arm64 Weixin NetType/WIFI Language/en`))
+      .toEqual({ name: 'WeChat', version: '8.0.43.2480' });
+    expect(parseInAppBrowser(`${IOS_WEBVIEW} Safari Line/13.20.0`)).toEqual({ name: 'Line', version: '13.20.0' });
+    expect(parseInAppBrowser(`${IOS_WEBVIEW} Snapchat/12.62.0.36 (iPhone14,5; iOS 17.0; gzip)`))
+      .toEqual({ name: 'Snapchat', version: '12.62.0.36' });
+  });
+
+  it('should not report regular browsers as in-app browsers', () => {
+    expect(parseInAppBrowser('Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36')).toBeUndefined();
+    expect(parseInAppBrowser('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1')).toBeUndefined();
+  });
+
+  it('should keep detecting the underlying browser', () => {
+    const agent = parseUserAgent(`${ANDROID_WEBVIEW} [FB_IAB/FB4A;FBAV/441.0.0.23.105;]`);
+
+    expect(agent.inAppBrowser?.name).toBe('Facebook');
+    expect(agent.browser?.name).toBe('Chrome');
+    expect(agent.device?.platform).toBe('Android');
+  });
+});
+
+describe('getSystemBrowserUrl', () => {
+  const androidAgent = parseUserAgent(`${ANDROID_WEBVIEW} [FB_IAB/FB4A;FBAV/441.0.0.23.105;]`);
+  const iosAgent = parseUserAgent(`${IOS_WEBVIEW} Instagram 309.0.0.40.113`);
+
+  it('should build an Android intent URL', () => {
+    expect(getSystemBrowserUrl('https://example.com/login?next=%2Fcart#top', androidAgent)).toBe(
+      'intent://example.com/login?next=%2Fcart#Intent;scheme=https;action=android.intent.action.VIEW;category=android.intent.category.BROWSABLE;S.browser_fallback_url=https%3A%2F%2Fexample.com%2Flogin%3Fnext%3D%252Fcart%23top;end'
+    );
+  });
+
+  it('should build an x-safari URL on iOS', () => {
+    expect(getSystemBrowserUrl('https://example.com/login', iosAgent)).toBe('x-safari-https://example.com/login');
+  });
+
+  it('should return undefined on other platforms and for invalid URLs', () => {
+    expect(getSystemBrowserUrl('https://example.com', { detectionMethod: 'ssr' })).toBeUndefined();
+    expect(getSystemBrowserUrl('/relative', androidAgent)).toBeUndefined();
+    expect(getSystemBrowserUrl('javascript:alert(1)', iosAgent)).toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { parseOS, resolveOS } from '../../detectors/os';
+import { mergeHighEntropyData, extractLowEntropyData } from '../../detectors/clientHints';
+import { parseClientHintsHeaders } from '../../detectors/clientHintsHeaders';
+import { MACOS_VERSION_NAMES, WINDOWS_NT_VERSION_NAMES } from '../../constants/os';
+
+/**
+ * Unit Tests for OS Detection
+ *
+ * These tests verify the OS version names derived from Client Hints and
+ * from the User-Agent string, including the fallback between them.
+ */
+
+const SAFARI_MAC_UA = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Safari/605.1.15';
+const CHROME_ANDROID_UA = 'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.6099.144 Mobile Safari/537.36';
+
+describe('resolveOS', () => {
+  it.each([
+    ['15.0.0', 'Windows 11'],
+    ['13.0.0', 'Windows 11'],
+    ['10.0.0', 'Windows 10'],
+    ['1.0.0', 'Windows 10'],
+    ['0.3.0', 'Windows 8.1'],
+    ['0.1.0', 'Windows 7'],
+  ])('should resolve Windows platformVersion %s to %s', (platformVersion, versionName) => {
+    expect(resolveOS('Windows', platformVersion)).toEqual({ name: 'Windows', version: platformVersion, versionName });
+  });
+
+  it('should resolve macOS, Android and Chrome OS versions', () => {
+    expect(resolveOS('Mac OS', '14.2.1').versionName).toBe('macOS Sonoma');
+    expect(resolveOS('Mac OS', '10.15.7').versionName).toBe('macOS Catalina');
+    expect(resolveOS('Android', '14.0.0').versionName).toBe('Android 14');
+    expect(resolveOS('Chrome OS', '15633.69.0').versionName).toBeUndefined();
+  });
+
+  it('should fall back to the User-Agent version without platformVersion', () => {
+    expect(resolveOS('Android', undefined, CHROME_ANDROID_UA)).toEqual({ name: 'Android', version: '14', versionName: 'Android 14' });
+    expect(resolveOS('Mac OS', undefined, SAFARI_MAC_UA)).toEqual({ name: 'Mac OS', version: '10.15.7', versionFrozen: true });
+  });
+
+  it('should ignore a User-Agent string of another platform', () => {
+    expect(resolveOS('Windows', undefined, CHROME_ANDROID_UA)).toEqual({ name: 'Windows' });
+    expect(resolveOS('Linux')).toEqual({ name: 'Linux' });
+  });
+});
+
+describe('parseOS', () => {
+  it.each(Object.entries(WINDOWS_NT_VERSION_NAMES))(
+    'should name Windows NT %s as %s',
+    (version, versionName) => {
+      const os = parseOS(`Mozilla/5.0 (Windows NT ${version}; Win64; x64; rv:115.0) Gecko/20100101 Firefox/115.0`);
+
+      expect(os).toEqual({ name: 'Windows', version, versionName });
+    }
+  );
+
+  it.each(Object.entries(MACOS_VERSION_NAMES).filter(([version]) => version !== '10.15'))(
+    'should name Mac OS %s as %s',
+    (version, versionName) => {
+      const os = parseOS(`Mozilla/5.0 (Macintosh; Intel Mac OS X ${version.replace(/\./g, '_')}_1) AppleWebKit/605.1.15 (KHTML, like Gecko) Safari/605.1.15`);
+
+      expect(os?.versionName).toBe(versionName);
+    }
+  );
+
+  it('should name iOS and Android versions', () => {
+    expect(parseOS('Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1'))
+      .toEqual({ name: 'iOS', version: '17.2', versionName: 'iOS 17' });
+    expect(parseOS(CHROME_ANDROID_UA)).toEqual({ name: 'Android', version: '14', versionName: 'Android 14' });
+  });
+
+  it('should not name frozen versions', () => {
+    expect(parseOS('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'))
+      .toEqual({ name: 'Windows', version: '10.0', versionFrozen: true });
+    expect(parseOS(SAFARI_MAC_UA)?.versionName).toBeUndefined();
+  });
+
+  it('should return undefined for empty User-Agent strings', () => {
+    expect(parseOS('')).toBeUndefined();
+  });
+});
+
+describe('Client Hints OS resolution', () => {
+  it('should replace the fallback with the high-entropy platformVersion', () => {
+    const lowEntropyAgent = extractLowEntropyData({ brands: [], mobile: false, platform: 'Windows' });
+
+    expect(lowEntropyAgent.os).toEqual({ name: 'Windows' });
+
+    const agent = mergeHighEntropyData(lowEntropyAgent, { brands: [], mobile: false, platform: 'Windows', platformVersion: '15.0.0' });
+
+    expect(agent.os?.versionName).toBe('Windows 11');
+  });
+
+  it('should resolve the OS from Client Hints request headers', () => {
+    const headers = {
+      'sec-ch-ua': '"Chromium";v="120", "Google Chrome";v="120"',
+      'sec-ch-ua-mobile': '?1',
+      'sec-ch-ua-platform': '"Android"',
+      'user-agent': CHROME_ANDROID_UA,
+    };
+
+    expect(parseClientHintsHeaders(headers).os?.versionName).toBe('Android 14');
+    expect(parseClientHintsHeaders({ ...headers, 'sec-ch-ua-platform-version': '"15.0.0"' }).os?.version).toBe('15.0.0');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { parseUserAgent, detectBrowser, detectDevice } from "../../detectors/userAgentString";
+
+describe("parseUserAgent - Navigator-free parsing", () => {
+  it("should parse a desktop Chrome User-Agent string", () => {
+    const agent = parseUserAgent(
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36"
+    );
+
+    expect(agent.browser).toEqual({ name: "Chrome", version: "120.0.0.0" });
+    expect(agent.renderingEngine).toEqual({ name: "Blink", version: "120.0.0.0" });
+    expect(agent.device?.platform).toBe("Windows");
+    expect(agent.deviceType).toBe("desktop");
+    expect(agent.detectionMethod).toBe("user-agent-string");
+  });
+
+  it("should parse a mobile Safari User-Agent string", () => {
+    const agent = parseUserAgent(
+      "Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1"
+    );
+
+    expect(agent.browser?.name).toBe("Safari");
+    expect(agent.browser?.version).toBe("17.2");
+    expect(agent.renderingEngine?.name).toBe("WebKit");
+    expect(agent.device?.device).toBe("iPhone");
+    expect(agent.deviceType).toBe("mobile");
+  });
+
+  it("should detect modern iPads when maxTouchPoints is provided", () => {
+    const ua =
+      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15";
+
+    expect(parseUserAgent(ua).device?.device).toBe("Desktop PC");
+
+    const agent = parseUserAgent(ua, { maxTouchPoints: 5 });
+    expect(agent.device?.platform).toBe("iOS");
+    expect(agent.device?.device).toBe("iPad");
+    expect(agent.deviceType).toBe("tablet");
+  });
+
+  it("should return undefined properties for an empty string", () => {
+    const agent = parseUserAgent("");
+
+    expect(agent.browser).toBeUndefined();
+    expect(agent.device).toBeUndefined();
+    expect(agent.renderingEngine).toBeUndefined();
+    expect(agent.deviceType).toBeUndefined();
+  });
+
+  it("should match the Navigator-based detectors", () => {
+    const mockNavigator = {
+      userAgent:
+        "Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0",
+    } as Navigator;
+
+    const agent = parseUserAgent(mockNavigator.userAgent);
+
+    expect(agent.browser).toEqual(detectBrowser(mockNavigator));
+    expect(agent.device).toEqual(detectDevice(mockNavigator));
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createElement } from 'react';
+import type { ReactNode } from 'react';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useUserAgent } from '../../useUserAgent';
+import { UserAgentProvider } from '../../UserAgentProvider';
+import { clearUserAgentStores } from '../../userAgentStore';
+import type { NavigatorUAData, UseUserAgentOptions } from '../../types';
+
+/**
+ * Unit Tests for UserAgentProvider
+ * 
+ * These tests verify that detection runs once per provider and is shared
+ * with every useUserAgent call below it.
+ */
+
+const mockUserAgentData = (): NavigatorUAData => ({
+  brands: [{ brand: 'Google Chrome', version: '120' }],
+  mobile: false,
+  platform: 'Windows',
+  getHighEntropyValues: vi.fn(async () => ({
+    brands: [],
+    mobile: false,
+    platform: 'Windows',
+    architecture: 'x86',
+    model: '',
+    platformVersion: '15.0.0',
+    uaFullVersion: '120.0.6099.109',
+  })),
+});
+
+const withProvider = (options?: UseUserAgentOptions) =>
+  ({ children }: { children: ReactNode }) =>
+    createElement(UserAgentProvider, { options }, children);
+
+describe('UserAgentProvider', () => {
+  afterEach(() => {
+    clearUserAgentStores();
+    // @ts-expect-error - Removing mocked Client Hints API
+    delete window.navigator.userAgentData;
+  });
+
+  it('should share one high-entropy request between all consumers', async () => {
+    const userAgentData = mockUserAgentData();
+    Object.defineProperty(window.navigator, 'userAgentData', {
+      value: userAgentData,
+      configurable: true,
+    });
+
+    const { result } = renderHook(
+      () => [useUserAgent(), useUserAgent(), useUserAgent()],
+      { wrapper: withProvider({ highEntropy: true }) }
+    );
+
+    await waitFor(() => {
+      expect(result.current[0].device?.architecture).toBe('x86');
+    });
+
+    expect(userAgentData.getHighEntropyValues).toHaveBeenCalledTimes(1);
+    expect(result.current[1]).toBe(result.current[0]);
+    expect(result.current[2]).toBe(result.current[0]);
+  });
+
+  it('should keep useUserAgent working without a provider', () => {
+    const { result } = renderHook(() => useUserAgent());
+
+    expect(result.current.detectionMethod).toBe('user-agent-string');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useUserAgentSelector } from '../../useUserAgent';
+import { clearUserAgentStores, getUserAgentStore } from '../../userAgentStore';
+import { areDeviceInfoEqual } from '../../utils/comparison';
+import type { NavigatorUAData } from '../../types';
+
+/**
+ * Unit Tests for useUserAgentSelector
+ * 
+ * These tests verify that components only re-render when their selected
+ * slice of the agent changes.
+ */
+
+const mockUserAgentData = (): NavigatorUAData => ({
+  brands: [{ brand: 'Google Chrome', version: '120' }],
+  mobile: true,
+  platform: 'Android',
+  getHighEntropyValues: vi.fn(async () => ({
+    brands: [],
+    mobile: true,
+    platform: 'Android',
+    model: 'Pixel 7',
+  })),
+});
+
+describe('useUserAgentSelector', () => {
+  afterEach(() => {
+    clearUserAgentStores();
+    // @ts-expect-error - Removing mocked Client Hints API
+    delete window.navigator.userAgentData;
+  });
+
+  it('should return the selected value', () => {
+    Object.defineProperty(window.navigator, 'userAgentData', {
+      value: mockUserAgentData(),
+      configurable: true,
+    });
+
+    const { result } = renderHook(() => useUserAgentSelector((agent) => agent.deviceType));
+
+    expect(result.current).toBe('mobile');
+  });
+
+  it('should not re-render when an unselected part of the agent changes', async () => {
+    Object.defineProperty(window.navigator, 'userAgentData', {
+      value: mockUserAgentData(),
+      configurable: true,
+    });
+
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders++;
+      return useUserAgentSelector((agent) => agent.deviceType);
+    });
+    const rendersBefore = renders;
+
+    await act(() => getUserAgentStore().requestHighEntropy(['model']));
+
+    expect(getUserAgentStore().getSnapshot().device?.model).toBe('Pixel 7');
+    expect(result.current).toBe('mobile');
+    expect(renders).toBe(rendersBefore);
+  });
+
+  it('should re-render when the selected value changes', async () => {
+    Object.defineProperty(window.navigator, 'userAgentData', {
+      value: mockUserAgentData(),
+      configurable: true,
+    });
+
+    const { result } = renderHook(() => useUserAgentSelector((agent) => agent.device?.model));
+
+    expect(result.current).toBeUndefined();
+    await act(() => getUserAgentStore().requestHighEntropy(['model']));
+    expect(result.current).toBe('Pixel 7');
+  });
+
+  it('should use the custom equality function for object slices', async () => {
+    Object.defineProperty(window.navigator, 'userAgentData', {
+      value: {
+        ...mockUserAgentData(),
+        // Returns nothing new, so the merged device is equal but a new object
+        getHighEntropyValues: vi.fn(async () => ({ brands: [], mobile: true, platform: 'Android' })),
+      },
+      configurable: true,
+    });
+
+    const { result } = renderHook(() =>
+      useUserAgentSelector((agent) => agent.device, areDeviceInfoEqual)
+    );
+    const before = result.current;
+
+    await act(() => getUserAgentStore().requestHighEntropy(['model']));
+
+    expect(getUserAgentStore().getSnapshot().device).not.toBe(before);
+    expect(result.current).toBe(before);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { detectShell, parseShell } from '../../detectors/shell';
+import { parseUserAgent } from '../../detectors/userAgentString';
+
+/**
+ * Unit Tests for App Shell Detection
+ * 
+ * These tests verify shell detection from User-Agent tokens and from the
+ * globals each shell exposes.
+ */
+
+const ELECTRON_UA = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) MyApp/2.1.0 Chrome/120.0.6099.56 Electron/28.0.0 Safari/537.36';
+const CHROME_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const ANDROID_WEBVIEW_UA = 'Mozilla/5.0 (Linux; Android 14; Pixel 8; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/120.0.6099.144 Mobile Safari/537.36';
+
+const navigatorWith = (userAgent: string) => ({ userAgent }) as Navigator;
+
+describe('parseShell', () => {
+  it('should detect Electron from its User-Agent token', () => {
+    expect(parseShell(ELECTRON_UA)).toEqual({ name: 'Electron', version: '28.0.0' });
+  });
+
+  it('should detect appended shell tokens', () => {
+    expect(parseShell(`${ANDROID_WEBVIEW_UA} Capacitor/5.6.0`)).toEqual({ name: 'Capacitor', version: '5.6.0' });
+    expect(parseShell(`${CHROME_UA} Tauri/2.1.1`)).toEqual({ name: 'Tauri', version: '2.1.1' });
+  });
+
+  it('should not report regular browsers', () => {
+    expect(parseShell(CHROME_UA)).toBeUndefined();
+    expect(parseShell('')).toBeUndefined();
+  });
+
+  it('should keep detecting the Chrome browser of Electron', () => {
+    const agent = parseUserAgent(ELECTRON_UA);
+
+    expect(agent.shell?.name).toBe('Electron');
+    expect(agent.browser?.name).toBe('Chrome');
+  });
+});
+
+describe('detectShell', () => {
+  const globals = window as unknown as Record<string, unknown>;
+
+  afterEach(() => {
+    delete globals.electron;
+    delete globals.__TAURI__;
+    delete globals.__TAURI_INTERNALS__;
+    delete globals.Capacitor;
+    delete globals.cordova;
+    delete globals.nw;
+  });
+
+  it('should detect Electron from a preload API with the User-Agent version', () => {
+    globals.electron = {};
+
+    expect(detectShell(navigatorWith(ELECTRON_UA))).toEqual({ name: 'Electron', version: '28.0.0' });
+  });
+
+  it('should detect Tauri v1 and v2', () => {
+    globals.__TAURI__ = {};
+    expect(detectShell(navigatorWith(CHROME_UA))).toEqual({ name: 'Tauri', version: undefined });
+
+    delete globals.__TAURI__;
+    globals.__TAURI_INTERNALS__ = {};
+    expect(detectShell(navigatorWith(CHROME_UA))?.name).toBe('Tauri');
+  });
+
+  it('should detect Capacitor on native platforms only', () => {
+    globals.Capacitor = { isNativePlatform: () => false };
+    expect(detectShell(navigatorWith(ANDROID_WEBVIEW_UA))).toBeUndefined();
+
+    globals.Capacitor = { isNativePlatform: () => true };
+    expect(detectShell(navigatorWith(ANDROID_WEBVIEW_UA))?.name).toBe('Capacitor');
+  });
+
+  it('should detect Cordova with its version', () => {
+    globals.cordova = { version: '12.0.0' };
+
+    expect(detectShell(navigatorWith(ANDROID_WEBVIEW_UA))).toEqual({ name: 'Cordova', version: '12.0.0' });
+  });
+
+  it('should detect NW.js', () => {
+    globals.nw = {};
+
+    expect(detectShell(navigatorWith(CHROME_UA))?.name).toBe('NW.js');
+  });
+
+  it('should return undefined in regular browsers', () => {
+    expect(detectShell(navigatorWith(CHROME_UA))).toBeUndefined();
+  });
+});
@@ -0,0 +1,286 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useRequestHighEntropy, useUserAgent } from '../../useUserAgent';
+import { clearUserAgentStores, createUserAgentStore, getUserAgentStore } from '../../userAgentStore';
+import type { NavigatorUAData } from '../../types';
+
+/**
+ * Unit Tests for the shared user agent store
+ * 
+ * These tests verify that detection results are cached in a module-level
+ * store and shared between all consumers through useSyncExternalStore.
+ */
+
+const mockUserAgentData = (): NavigatorUAData => ({
+  brands: [{ brand: 'Google Chrome', version: '120' }],
+  mobile: true,
+  platform: 'Android',
+  getHighEntropyValues: vi.fn(async () => ({
+    brands: [],
+    mobile: true,
+    platform: 'Android',
+    model: 'Pixel 7',
+  })),
+});
+
+describe('User Agent Store', () => {
+  afterEach(() => {
+    clearUserAgentStores();
+    // @ts-expect-error - Removing mocked Client Hints API
+    delete window.navigator.userAgentData;
+  });
+
+  it('should return a detected agent on the first render', () => {
+    const { result } = renderHook(() => useUserAgent());
+
+    expect(result.current.detectionMethod).toBe('user-agent-string');
+    expect(result.current.device).toBeDefined();
+  });
+
+  it('should return the same cached snapshot to every consumer', () => {
+    const first = renderHook(() => useUserAgent());
+    const second = renderHook(() => useUserAgent());
+
+    expect(second.result.current).toBe(first.result.current);
+  });
+
+  it('should not detect again when a component remounts', async () => {
+    const userAgentData = mockUserAgentData();
+    Object.defineProperty(window.navigator, 'userAgentData', {
+      value: userAgentData,
+      configurable: true,
+    });
+
+    const first = renderHook(() => useUserAgent({ highEntropy: true }));
+    await waitFor(() => {
+      expect(first.result.current.device?.model).toBe('Pixel 7');
+    });
+    first.unmount();
+
+    const second = renderHook(() => useUserAgent({ highEntropy: true }));
+
+    expect(second.result.current.device?.model).toBe('Pixel 7');
+    expect(userAgentData.getHighEntropyValues).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share stores between equal options only', () => {
+    expect(getUserAgentStore()).toBe(getUserAgentStore({ hints: ['model'] }));
+    expect(getUserAgentStore({ highEntropy: true })).not.toBe(getUserAgentStore());
+    expect(getUserAgentStore({ highEntropy: true, hints: ['model'] })).toBe(
+      getUserAgentStore({ highEntropy: true, hints: ['model'] })
+    );
+  });
+
+  it('should notify subscribers when high-entropy values arrive', async () => {
+    Object.defineProperty(window.navigator, 'userAgentData', {
+      value: mockUserAgentData(),
+      configurable: true,
+    });
+
+    const store = createUserAgentStore({ highEntropy: true });
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    expect(store.getSnapshot().device?.model).toBeUndefined();
+
+    await waitFor(() => {
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+    expect(store.getSnapshot().device?.model).toBe('Pixel 7');
+  });
+
+  it('should return the SSR agent as server snapshot', () => {
+    const store = createUserAgentStore();
+
+    expect(store.getServerSnapshot().detectionMethod).toBe('ssr');
+    expect(store.getServerSnapshot()).toBe(store.getServerSnapshot());
+  });
+});
+
+describe('Detection Status', () => {
+  afterEach(() => {
+    clearUserAgentStores();
+    // @ts-expect-error - Removing mocked Client Hints API
+    delete window.navigator.userAgentData;
+  });
+
+  it('should report complete for synchronous detection', () => {
+    const { result } = renderHook(() => useUserAgent());
+
+    expect(result.current.status).toBe('complete');
+    expect(result.current.error).toBeUndefined();
+  });
+
+  it('should report low-entropy until high-entropy values arrive', async () => {
+    Object.defineProperty(window.navigator, 'userAgentData', {
+      value: mockUserAgentData(),
+      configurable: true,
+    });
+
+    const { result } = renderHook(() => useUserAgent({ highEntropy: true }));
+
+    expect(result.current.status).toBe('low-entropy');
+    await waitFor(() => {
+      expect(result.current.status).toBe('complete');
+    });
+  });
+
+  it('should report failed with the error when high-entropy values are rejected', async () => {
+    const error = new Error('NotAllowedError');
+    Object.defineProperty(window.navigator, 'userAgentData', {
+      value: {
+        ...mockUserAgentData(),
+        getHighEntropyValues: vi.fn(async () => {
+          throw error;
+        }),
+      },
+      configurable: true,
+    });
+
+    const { result } = renderHook(() => useUserAgent({ highEntropy: true }));
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('failed');
+    });
+    expect(result.current.error).toBe(error);
+    // Low-entropy data is still available
+    expect(result.current.browser?.name).toBe('Chrome');
+  });
+
+  it('should report idle on the server', () => {
+    expect(createUserAgentStore().getServerSnapshot().status).toBe('idle');
+  });
+});
+
+describe('Progressive High-Entropy Detection', () => {
+  afterEach(() => {
+    clearUserAgentStores();
+    // @ts-expect-error - Removing mocked Client Hints API
+    delete window.navigator.userAgentData;
+  });
+
+  it('should publish the low-entropy agent before high-entropy values arrive', async () => {
+    let resolveHighEntropy: (values: Awaited<ReturnType<NavigatorUAData['getHighEntropyValues']>>) => void = () => {};
+    const getHighEntropyValues = vi.fn(
+      () =>
+        new Promise<Awaited<ReturnType<NavigatorUAData['getHighEntropyValues']>>>((resolve) => {
+          resolveHighEntropy = resolve;
+        })
+    );
+    Object.defineProperty(window.navigator, 'userAgentData', {
+      value: { ...mockUserAgentData(), getHighEntropyValues },
+      configurable: true,
+    });
+
+    const { result } = renderHook(() => useUserAgent({ highEntropy: true }));
+
+    expect(result.current.browser?.name).toBe('Chrome');
+    expect(result.current.deviceType).toBe('mobile');
+    expect(result.current.entropy).toBe('low');
+    expect(result.current.status).toBe('low-entropy');
+
+    await waitFor(() => {
+      expect(getHighEntropyValues).toHaveBeenCalled();
+    });
+    resolveHighEntropy({ brands: [], mobile: true, platform: 'Android', model: 'Pixel 7' });
+
+    await waitFor(() => {
+      expect(result.current.entropy).toBe('high');
+    });
+    expect(result.current.device?.model).toBe('Pixel 7');
+    expect(result.current.status).toBe('complete');
+  });
+
+  it('should keep the low-entropy phase when high-entropy values fail', async () => {
+    Object.defineProperty(window.navigator, 'userAgentData', {
+      value: {
+        ...mockUserAgentData(),
+        getHighEntropyValues: vi.fn(async () => {
+          throw new Error('NotAllowedError');
+        }),
+      },
+      configurable: true,
+    });
+
+    const { result } = renderHook(() => useUserAgent({ highEntropy: true }));
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('failed');
+    });
+    expect(result.current.entropy).toBe('low');
+  });
+});
+
+describe('On-Demand High-Entropy Requests', () => {
+  afterEach(() => {
+    clearUserAgentStores();
+    // @ts-expect-error - Removing mocked Client Hints API
+    delete window.navigator.userAgentData;
+  });
+
+  it('should merge requested values and update every subscriber', async () => {
+    const userAgentData = mockUserAgentData();
+    Object.defineProperty(window.navigator, 'userAgentData', {
+      value: userAgentData,
+      configurable: true,
+    });
+
+    const first = renderHook(() => useUserAgent());
+    const second = renderHook(() => useUserAgent());
+    const request = renderHook(() => useRequestHighEntropy());
+
+    expect(first.result.current.device?.model).toBeUndefined();
+
+    await act(() => request.result.current(['model']));
+
+    expect(userAgentData.getHighEntropyValues).toHaveBeenCalledWith(['model']);
+    expect(first.result.current.device?.model).toBe('Pixel 7');
+    expect(second.result.current).toBe(first.result.current);
+    expect(first.result.current.entropy).toBe('high');
+  });
+
+  it('should not request hints that were already received', async () => {
+    const userAgentData = mockUserAgentData();
+    Object.defineProperty(window.navigator, 'userAgentData', {
+      value: userAgentData,
+      configurable: true,
+    });
+
+    const store = getUserAgentStore();
+    await store.requestHighEntropy(['model']);
+    await store.requestHighEntropy(['model', 'architecture']);
+    await store.requestHighEntropy(['architecture']);
+
+    expect(userAgentData.getHighEntropyValues).toHaveBeenCalledTimes(2);
+    expect(userAgentData.getHighEntropyValues).toHaveBeenLastCalledWith(['architecture']);
+  });
+
+  it('should keep values from earlier requests', async () => {
+    Object.defineProperty(window.navigator, 'userAgentData', {
+      value: {
+        ...mockUserAgentData(),
+        getHighEntropyValues: vi.fn(async (hints: string[]) => ({
+          brands: [],
+          mobile: true,
+          platform: 'Android',
+          model: hints.includes('model') ? 'Pixel 7' : undefined,
+          architecture: hints.includes('architecture') ? 'arm' : undefined,
+        })),
+      },
+      configurable: true,
+    });
+
+    const store = getUserAgentStore();
+    await store.requestHighEntropy(['model']);
+    const agent = await store.requestHighEntropy(['architecture']);
+
+    expect(agent.device?.model).toBe('Pixel 7');
+    expect(agent.device?.architecture).toBe('arm');
+  });
+
+  it('should resolve to the current agent without Client Hints support', async () => {
+    const store = getUserAgentStore();
+
+    await expect(store.requestHighEntropy(['model'])).resolves.toBe(store.getSnapshot());
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { compareVersions, isAtLeast, parseVersion, satisfies } from '../../utils/version';
+import type { Agent } from '../../types';
+
+/**
+ * Unit Tests for the version comparison utilities
+ * 
+ * These tests verify dotted and underscore versions, missing segments and
+ * the handling of unknown versions.
+ */
+
+const SAFARI_AGENT: Agent = {
+  browser: { name: 'Safari', version: '16.4' },
+  device: { isMobile: true, platform: 'iOS', device: 'iPhone', platformVersion: '16_4_1' },
+  renderingEngine: { name: 'WebKit', version: '605.1.15' },
+  detectionMethod: 'user-agent-string',
+  deviceType: 'mobile',
+};
+
+describe('parseVersion', () => {
+  it('should parse dotted and underscore versions', () => {
+    expect(parseVersion('120.0.6099.109')).toEqual([120, 0, 6099, 109]);
+    expect(parseVersion('17_2')).toEqual([17, 2]);
+    expect(parseVersion('16.4b1')).toEqual([16, 4]);
+  });
+
+  it('should return undefined for unknown versions', () => {
+    expect(parseVersion('Unknown')).toBeUndefined();
+    expect(parseVersion('')).toBeUndefined();
+    expect(parseVersion(undefined)).toBeUndefined();
+  });
+});
+
+describe('compareVersions', () => {
+  it('should compare segments numerically', () => {
+    expect(compareVersions('16.10', '16.4')).toBe(1);
+    expect(compareVersions('9.1', '16')).toBe(-1);
+    expect(compareVersions('120.0.6099.109', '120.0.6099.109')).toBe(0);
+  });
+
+  it('should treat missing segments as 0', () => {
+    expect(compareVersions('16', '16.0.0')).toBe(0);
+    expect(compareVersions('17_2', '17.2.0')).toBe(0);
+    expect(compareVersions('16', '16.0.1')).toBe(-1);
+  });
+
+  it('should sort unknown versions first', () => {
+    expect(compareVersions('Unknown', '1')).toBe(-1);
+    expect(compareVersions('1', 'Unknown')).toBe(1);
+    expect(compareVersions('Unknown', undefined)).toBe(0);
+    expect(['16.4', 'Unknown', '9.1', '16.10'].sort(compareVersions))
+      .toEqual(['Unknown', '9.1', '16.4', '16.10']);
+  });
+});
+
+describe('isAtLeast', () => {
+  it('should accept version strings and versioned objects', () => {
+    expect(isAtLeast('17_2', '17.1')).toBe(true);
+    expect(isAtLeast(SAFARI_AGENT.browser, '16.4')).toBe(true);
+    expect(isAtLeast(SAFARI_AGENT.browser, '16.5')).toBe(false);
+    expect(isAtLeast(SAFARI_AGENT.renderingEngine, '605')).toBe(true);
+  });
+
+  it('should never match unknown or missing versions', () => {
+    expect(isAtLeast({ version: 'Unknown' }, '0')).toBe(false);
+    expect(isAtLeast(undefined, '0')).toBe(false);
+    expect(isAtLeast('16', 'Unknown')).toBe(false);
+  });
+});
+
+describe('satisfies', () => {
+  it('should match browser ranges', () => {
+    expect(satisfies(SAFARI_AGENT, 'Safari >= 16.4')).toBe(true);
+    expect(satisfies(SAFARI_AGENT, 'Safari > 16.4')).toBe(false);
+    expect(satisfies(SAFARI_AGENT, 'Safari = 16.4.0')).toBe(true);
+    expect(satisfies(SAFARI_AGENT, 'safari<17')).toBe(true);
+    expect(satisfies(SAFARI_AGENT, 'Chrome >= 1')).toBe(false);
+  });
+
+  it('should match engine and platform ranges', () => {
+    expect(satisfies(SAFARI_AGENT, 'WebKit >= 605.1')).toBe(true);
+    expect(satisfies(SAFARI_AGENT, 'iOS >= 16.4.1')).toBe(true);
+    expect(satisfies(SAFARI_AGENT, 'iOS < 16')).toBe(false);
+  });
+
+  it('should match names without versions', () => {
+    expect(satisfies(SAFARI_AGENT, 'Safari')).toBe(true);
+    expect(satisfies({ ...SAFARI_AGENT, browser: { name: 'Samsung Internet', version: '23.0' } }, 'Samsung Internet >= 23')).toBe(true);
+  });
+
+  it('should match any of several ranges', () => {
+    expect(satisfies(SAFARI_AGENT, 'Chrome >= 120 || Safari >= 16')).toBe(true);
+    expect(satisfies(SAFARI_AGENT, 'Chrome >= 120 || Firefox >= 121')).toBe(false);
+  });
+
+  it('should not match undetected agents, unknown versions or malformed ranges', () => {
+    expect(satisfies({ detectionMethod: 'ssr' }, 'Safari >= 1')).toBe(false);
+    expect(satisfies({ ...SAFARI_AGENT, browser: { name: 'Safari', version: 'Unknown' } }, 'Safari >= 1')).toBe(false);
+    expect(satisfies(SAFARI_AGENT, '>= 16')).toBe(false);
+    expect(satisfies(SAFARI_AGENT, '')).toBe(false);
+  });
+});
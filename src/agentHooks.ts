@@ -0,0 +1,135 @@
+import type {
+  BrowserInfo,
+  Platform,
+  RenderingEngineInfo,
+  UseUserAgentOptions,
+} from "./types";
+import { useUserAgentSelector } from "./useUserAgent";
+import { areBrowserInfoEqual, areRenderingEngineInfoEqual } from "./utils/comparison";
+
+/**
+ * Browser returned while the agent is not detected (SSR, detection failed)
+ */
+const UNKNOWN_BROWSER: BrowserInfo = { name: "Unknown", version: "" };
+
+/**
+ * Rendering engine returned while the agent is not detected
+ */
+const UNKNOWN_RENDERING_ENGINE: RenderingEngineInfo = { name: "Unknown", version: "" };
+
+/**
+ * -----------------------------------------------------------
+ *  Use Is Mobile
+ * -----------------------------------------------------------
+ * Returns whether the user is on a mobile device. `false` during
+ * SSR and when the device couldn't be detected.
+ *
+ * Like the other convenience hooks, it reads the same shared
+ * store as `useUserAgent`, so no extra detection is run, and it
+ * only re-renders when its own value changes.
+ *
+ * *Type*: React Hook
+ *
+ * @param options - Optional detection options (ignored inside a `UserAgentProvider`)
+ * @returns `true` on mobile devices
+ *
+ * @example
+ * ```typescript
+ * const isMobile = useIsMobile();
+ * ```
+ * -----------------------------------------------------------
+ */
+export const useIsMobile = (options?: UseUserAgentOptions): boolean =>
+  useUserAgentSelector((agent) => agent.device?.isMobile ?? false, Object.is, options);
+
+/**
+ * -----------------------------------------------------------
+ *  Use Browser
+ * -----------------------------------------------------------
+ * Returns the detected browser, or `{ name: 'Unknown', version: '' }`
+ * during SSR and when the browser couldn't be detected.
+ *
+ * *Type*: React Hook
+ *
+ * @param options - Optional detection options (ignored inside a `UserAgentProvider`)
+ * @returns The browser information
+ *
+ * @example
+ * ```typescript
+ * const { name, version } = useBrowser();
+ * ```
+ * -----------------------------------------------------------
+ */
+export const useBrowser = (options?: UseUserAgentOptions): BrowserInfo =>
+  useUserAgentSelector((agent) => agent.browser ?? UNKNOWN_BROWSER, areBrowserInfoEqual, options);
+
+/**
+ * -----------------------------------------------------------
+ *  Use OS
+ * -----------------------------------------------------------
+ * Returns the detected platform, or `'Unknown'` during SSR and
+ * when the device couldn't be detected.
+ *
+ * *Type*: React Hook
+ *
+ * @param options - Optional detection options (ignored inside a `UserAgentProvider`)
+ * @returns The platform name
+ *
+ * @example
+ * ```typescript
+ * const os = useOS(); // "Mac OS"
+ * ```
+ * -----------------------------------------------------------
+ */
+export const useOS = (options?: UseUserAgentOptions): Platform =>
+  useUserAgentSelector((agent) => agent.device?.platform ?? "Unknown", Object.is, options);
+
+/**
+ * -----------------------------------------------------------
+ *  Use Rendering Engine
+ * -----------------------------------------------------------
+ * Returns the detected rendering engine, or
+ * `{ name: 'Unknown', version: '' }` during SSR and when the
+ * engine couldn't be detected.
+ *
+ * *Type*: React Hook
+ *
+ * @param options - Optional detection options (ignored inside a `UserAgentProvider`)
+ * @returns The rendering engine information
+ *
+ * @example
+ * ```typescript
+ * const engine = useRenderingEngine();
+ * if (engine.name === 'WebKit') {
+ *   // Apply WebKit-specific fixes
+ * }
+ * ```
+ * -----------------------------------------------------------
+ */
+export const useRenderingEngine = (options?: UseUserAgentOptions): RenderingEngineInfo =>
+  useUserAgentSelector(
+    (agent) => agent.renderingEngine ?? UNKNOWN_RENDERING_ENGINE,
+    areRenderingEngineInfoEqual,
+    options
+  );
+
+/**
+ * -----------------------------------------------------------
+ *  Use Device Type
+ * -----------------------------------------------------------
+ * Returns the device type classification, or `'desktop'` during
+ * SSR and when the device couldn't be detected.
+ *
+ * *Type*: React Hook
+ *
+ * @param options - Optional detection options (ignored inside a `UserAgentProvider`)
+ * @returns `'mobile'`, `'tablet'` or `'desktop'`
+ *
+ * @example
+ * ```typescript
+ * const deviceType = useDeviceType();
+ * ```
+ * -----------------------------------------------------------
+ */
+export const useDeviceType = (options?: UseUserAgentOptions): "mobile" | "tablet" | "desktop" =>
+  useUserAgentSelector((agent) => agent.deviceType ?? "desktop", Object.is, options);
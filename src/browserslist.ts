@@ -0,0 +1,33 @@
+/**
+ * react-hook-useagent/browserslist
+ * 
+ * Browserslist matching for detected agents. Kept out of the main entry point,
+ * since it imports browserslist and its caniuse-lite data. `browserslist` is
+ * not bundled: it is an optional peer dependency that consumers of this entry
+ * point must install themselves.
+ * 
+ * @see https://github.com/browserslist/browserslist
+ * @packageDocumentation
+ */
+
+/**
+ * Checks whether an agent is selected by a browserslist query
+ * 
+ * Maps the agent onto browserslist IDs (chrome, and_chr, ios_saf, samsung, ...)
+ * and resolves the query offline against the installed browserslist data.
+ * 
+ * @example
+ * ```typescript
+ * import { useUserAgent } from 'react-hook-useagent';
+ * import { matchesBrowserslist } from 'react-hook-useagent/browserslist';
+ * 
+ * const agent = useUserAgent();
+ * const supported = matchesBrowserslist(agent, '> 0.5%, last 2 versions, not dead');
+ * ```
+ */
+export { matchesBrowserslist, getBrowserslistTarget } from "./utils/browserslist";
+
+/**
+ * Browserslist browser ID and version returned by getBrowserslistTarget
+ */
+export type { BrowserslistTarget } from "./types";
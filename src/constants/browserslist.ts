@@ -0,0 +1,62 @@
+import type { BrowserName, RenderingEngine } from "../types";
+
+/**
+ * Browserslist IDs of a browser
+ *
+ * `android` replaces `desktop` on Android; browsers without data for a
+ * platform leave its ID out. `engineVersion` marks browsers whose own version
+ * doesn't match the browserslist data, e.g. Chromium-based browsers listed as
+ * Chrome, which use the Blink version; `androidEngineVersion` does the same
+ * on Android only, e.g. for Opera for Android. `byEngine` replaces the IDs
+ * of browsers that ship with different engines, e.g. Firefox Focus.
+ */
+export interface BrowserslistIds {
+  desktop?: string;
+  android?: string;
+  engineVersion?: boolean;
+  androidEngineVersion?: boolean;
+  byEngine?: Partial<Record<RenderingEngine, BrowserslistIds>>;
+}
+
+/**
+ * Mapping from detected browser names to browserslist browser IDs
+ *
+ * Browsers without an entry (e.g. Seamonkey) are not covered by the
+ * browserslist data and never match a query. On iOS, every browser uses
+ * the system WebKit and is mapped to `ios_saf` regardless of this table.
+ *
+ * @see https://github.com/browserslist/browserslist#browsers - Browserslist browser IDs
+ */
+export const BROWSERSLIST_IDS: Partial<Record<BrowserName, BrowserslistIds>> = {
+  Chrome: { desktop: "chrome", android: "and_chr" },
+  Chromium: { desktop: "chrome", android: "and_chr", engineVersion: true },
+  Brave: { desktop: "chrome", android: "and_chr", engineVersion: true },
+  Vivaldi: { desktop: "chrome", android: "and_chr", engineVersion: true },
+  Arc: { desktop: "chrome", engineVersion: true },
+  Edge: { desktop: "edge", android: "and_chr" },
+  Firefox: { desktop: "firefox", android: "and_ff" },
+  Safari: { desktop: "safari" },
+  // Opera Touch; its app version (OPT/2.9) doesn't follow Chromium's
+  Opera: { android: "and_chr", engineVersion: true },
+  // Opera for Android's version differs from desktop Opera's, which the
+  // op_mob data is resolved from
+  "Opera15+": { desktop: "opera", android: "and_chr", androidEngineVersion: true },
+  "Opera12-": { desktop: "opera" },
+  "Samsung Internet": { desktop: "samsung", android: "samsung" },
+  "Opera GX": { desktop: "opera" },
+  "UC Browser": { android: "and_uc" },
+  "QQ Browser": { android: "and_qq" },
+  Yandex: { desktop: "chrome", android: "and_chr", engineVersion: true },
+  "Huawei Browser": { desktop: "chrome", android: "and_chr", engineVersion: true },
+  "Mi Browser": { desktop: "chrome", android: "and_chr", engineVersion: true },
+  Whale: { desktop: "chrome", android: "and_chr", engineVersion: true },
+  DuckDuckGo: { android: "and_chr", engineVersion: true },
+  "Firefox Focus": {
+    desktop: "firefox",
+    android: "and_ff",
+    engineVersion: true,
+    byEngine: { Blink: { android: "and_chr", engineVersion: true } },
+  },
+  "Internet Explorer": { desktop: "ie" },
+  "Edge Legacy": { desktop: "edge" },
+};
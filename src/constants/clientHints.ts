@@ -0,0 +1,56 @@
+import type { HighEntropyHint } from "../types";
+
+/**
+ * Default high-entropy hints
+ * 
+ * Requested when `highEntropy` is enabled without an explicit `hints` list.
+ * Shared by the in-browser detection (getHighEntropyValues) and the server-side
+ * `Accept-CH` header generation so both ask for the same data.
+ * 
+ * @see https://wicg.github.io/ua-client-hints/#high-entropy-hint-table - High-entropy hints specification
+ */
+export const DEFAULT_HIGH_ENTROPY_HINTS: HighEntropyHint[] = [
+  "architecture",
+  "model",
+  "platformVersion",
+  "uaFullVersion",
+];
+
+/**
+ * Default timeout for high-entropy requests in milliseconds
+ * 
+ * getHighEntropyValues() may never settle (e.g. when a permission prompt is
+ * ignored), so detection falls back to low-entropy data after this delay.
+ * Can be overridden with the `timeoutMs` option.
+ */
+export const HIGH_ENTROPY_TIMEOUT_MS = 5000;
+
+/**
+ * Low-entropy Client Hints request headers
+ * 
+ * Sent by supporting browsers on every secure request without an `Accept-CH` opt-in.
+ * 
+ * @see https://wicg.github.io/ua-client-hints/#low-entropy-hint-table - Low-entropy hints specification
+ */
+export const LOW_ENTROPY_HINT_HEADERS: string[] = [
+  "Sec-CH-UA",
+  "Sec-CH-UA-Mobile",
+  "Sec-CH-UA-Platform",
+];
+
+/**
+ * Maps high-entropy hint names to their request headers
+ * 
+ * `uaFullVersion` maps to both the deprecated `Sec-CH-UA-Full-Version` and its
+ * replacement `Sec-CH-UA-Full-Version-List`, since the server-side parser prefers
+ * the latter for brand detection.
+ * 
+ * @see https://wicg.github.io/ua-client-hints/#http-ua-hints - Client Hints request headers
+ */
+export const HIGH_ENTROPY_HINT_HEADERS: Record<HighEntropyHint, string[]> = {
+  architecture: ["Sec-CH-UA-Arch"],
+  model: ["Sec-CH-UA-Model"],
+  platform: ["Sec-CH-UA-Platform"],
+  platformVersion: ["Sec-CH-UA-Platform-Version"],
+  uaFullVersion: ["Sec-CH-UA-Full-Version", "Sec-CH-UA-Full-Version-List"],
+};
@@ -0,0 +1,63 @@
+/**
+ * Windows names by the NT version of the User-Agent string
+ *
+ * `Windows NT 10.0` is left out: Windows 11 still reports it, so it is a
+ * frozen version (see `DeviceInfo.platformVersionFrozen`) and Windows 10 and
+ * 11 can only be told apart with the Client Hints `platformVersion`.
+ *
+ * @see https://learn.microsoft.com/en-us/windows/win32/sysinfo/operating-system-version - Windows NT versions
+ */
+export const WINDOWS_NT_VERSION_NAMES: Record<string, string> = {
+  "6.3": "Windows 8.1",
+  "6.2": "Windows 8",
+  "6.1": "Windows 7",
+  "6.0": "Windows Vista",
+  "5.2": "Windows XP",
+  "5.1": "Windows XP",
+  "5.0": "Windows 2000",
+};
+
+/**
+ * Windows names by the Client Hints `platformVersion`
+ *
+ * The Client Hints version is the Windows.Foundation.UniversalApiContract
+ * version: `0.x` for Windows 7 to 8.1, `1` to `10` for Windows 10 and
+ * `13` and higher for Windows 11. Keys are the major version, or
+ * `major.minor` below Windows 10.
+ *
+ * @see https://learn.microsoft.com/en-us/microsoft-edge/web-platform/how-to-detect-win11 - Detecting Windows 11
+ */
+export const WINDOWS_PLATFORM_VERSION_NAMES: Record<string, string> = {
+  "0.1": "Windows 7",
+  "0.2": "Windows 8",
+  "0.3": "Windows 8.1",
+};
+
+/**
+ * First Client Hints `platformVersion` major version of Windows 11
+ */
+export const WINDOWS_11_MIN_PLATFORM_VERSION = 13;
+
+/**
+ * macOS marketing names
+ *
+ * Keys are `10.minor` up to macOS 10.15 and the major version from
+ * macOS 11 on.
+ *
+ * @see https://en.wikipedia.org/wiki/MacOS_version_history - macOS releases
+ */
+export const MACOS_VERSION_NAMES: Record<string, string> = {
+  "10.9": "OS X Mavericks",
+  "10.10": "OS X Yosemite",
+  "10.11": "OS X El Capitan",
+  "10.12": "macOS Sierra",
+  "10.13": "macOS High Sierra",
+  "10.14": "macOS Mojave",
+  "10.15": "macOS Catalina",
+  "11": "macOS Big Sur",
+  "12": "macOS Monterey",
+  "13": "macOS Ventura",
+  "14": "macOS Sonoma",
+  "15": "macOS Sequoia",
+  "26": "macOS Tahoe",
+};
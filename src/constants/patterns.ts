@@ -1,4 +1,11 @@
-import type { BrowserName, RenderingEngine } from "../types";
+import type {
+  BotCategory,
+  BrowserName,
+  InAppBrowserName,
+  LinuxDistribution,
+  RenderingEngine,
+  ShellName,
+} from "../types";
 
 /**
  * Browser detection patterns for User-Agent string parsing
@@ -9,10 +16,17 @@ import type { BrowserName, RenderingEngine } from "../types";
  * browsers are Chromium-based and include "Chrome" in their UA string.
  * 
  * Detection strategy:
- * 1. Check for specific Chromium variants first (Edge, Samsung, Vivaldi, Opera)
- * 2. Then check for Chrome (after excluding other Chromium browsers)
- * 3. Check for non-Chromium browsers (Firefox, Safari)
- * 4. Check for legacy browsers (Opera 12-)
+ * 1. Check for third-party iOS browsers (CriOS, FxiOS, EdgiOS, OPiOS, DuckDuckGo),
+ *    whose UA strings otherwise look like Safari
+ * 2. Check for specific Chromium variants (Edge, Samsung, Vivaldi, Opera, Yandex,
+ *    UC, Huawei, Mi, Whale, QQ)
+ * 3. Then check for Chrome (after excluding other Chromium browsers)
+ * 4. Check for non-Chromium browsers (Firefox, Safari)
+ * 5. Check for legacy browsers (Opera 12-)
+ * 
+ * Internet Explorer and legacy Edge come first, as their UA strings imitate
+ * other browsers (legacy Edge sends Chrome/ and Safari/, IE Mobile claims
+ * to be an iPhone).
  * 
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/User-Agent - User-Agent header format
  */
@@ -21,6 +35,54 @@ export const BROWSER_PATTERNS: Array<{
   pattern: RegExp;
   versionPattern?: RegExp;
 }> = [
+  // Internet Explorer (MSIE up to IE 10, Trident/7.0 with rv:11.0 for IE 11)
+  {
+    name: "Internet Explorer",
+    pattern: /MSIE |Trident\//,
+    versionPattern: /(?:MSIE |rv:)([0-9.]+)/,
+  },
+  // Edge Legacy (EdgeHTML-based) - sends Edge/ instead of Edg/
+  {
+    name: "Edge Legacy",
+    pattern: /Edge\/[0-9]/,
+    versionPattern: /Edge\/([0-9.]+)/,
+  },
+  // Firefox Focus (Klar in German-speaking countries) - must come before Firefox and Chrome
+  {
+    name: "Firefox Focus",
+    pattern: /Focus\/|Klar\//,
+    versionPattern: /(?:Focus|Klar)\/([0-9.]+)/,
+  },
+  // Chrome on iOS - must come before Safari
+  {
+    name: "Chrome",
+    pattern: /CriOS\//,
+    versionPattern: /CriOS\/([0-9.]+)/,
+  },
+  // Firefox on iOS - must come before Safari
+  {
+    name: "Firefox",
+    pattern: /FxiOS\//,
+    versionPattern: /FxiOS\/([0-9.]+)/,
+  },
+  // Edge on iOS - must come before Safari
+  {
+    name: "Edge",
+    pattern: /EdgiOS\//,
+    versionPattern: /EdgiOS\/([0-9.]+)/,
+  },
+  // Opera on iOS and Opera Touch (OPT/ on iOS and Android) - must come before Safari and Chrome
+  {
+    name: "Opera",
+    pattern: /OPiOS\/|OPT\//,
+    versionPattern: /(?:OPiOS|OPT)\/([0-9.]+)/,
+  },
+  // DuckDuckGo (Ddg/ on iOS, DuckDuckGo/ on Android) - must come before Chrome and Safari
+  {
+    name: "DuckDuckGo",
+    pattern: /Ddg\/|DuckDuckGo\//,
+    versionPattern: /(?:Ddg|DuckDuckGo)\/([0-9.]+)/,
+  },
   // Edge Chromium - must come before Chrome
   {
     name: "Edge",
@@ -39,12 +101,54 @@ export const BROWSER_PATTERNS: Array<{
     pattern: /Vivaldi\//,
     versionPattern: /Vivaldi\/([0-9.]+)/,
   },
+  // Opera GX - must come before Opera 15+
+  {
+    name: "Opera GX",
+    pattern: /OPR\/.*\(Edition [^)]*GX/,
+    versionPattern: /OPR\/([0-9.]+)/,
+  },
   // Opera 15+ (Chromium-based) - must come before Chrome
   {
     name: "Opera15+",
     pattern: /OPR\//,
     versionPattern: /OPR\/([0-9.]+)/,
   },
+  // Yandex Browser - must come before Chrome
+  {
+    name: "Yandex",
+    pattern: /YaBrowser\//,
+    versionPattern: /YaBrowser\/([0-9.]+)/,
+  },
+  // UC Browser - must come before Chrome
+  {
+    name: "UC Browser",
+    pattern: /UCBrowser\/|UCWEB/,
+    versionPattern: /UCBrowser\/([0-9.]+)/,
+  },
+  // Huawei Browser - must come before Chrome
+  {
+    name: "Huawei Browser",
+    pattern: /HuaweiBrowser\//,
+    versionPattern: /HuaweiBrowser\/([0-9.]+)/,
+  },
+  // Mi Browser (Xiaomi) - must come before Chrome
+  {
+    name: "Mi Browser",
+    pattern: /MiuiBrowser\//,
+    versionPattern: /MiuiBrowser\/([0-9.]+)/,
+  },
+  // Naver Whale - must come before Chrome
+  {
+    name: "Whale",
+    pattern: /Whale\//,
+    versionPattern: /Whale\/([0-9.]+)/,
+  },
+  // QQ Browser (MQQBrowser on mobile) - must come before Chrome
+  {
+    name: "QQ Browser",
+    pattern: /QQBrowser\//,
+    versionPattern: /QQBrowser\/([0-9.]+)/,
+  },
   // Chrome - after all Chromium variants
   {
     name: "Chrome",
@@ -78,11 +182,23 @@ export const BROWSER_PATTERNS: Array<{
   // Opera 12- (Presto-based) - obsolete
   {
     name: "Opera12-",
-    pattern: /Opera\//,
-    versionPattern: /Opera\/([0-9.]+)/,
+    pattern: /Opera[/ ]/,
+    versionPattern: /Opera[/ ]([0-9.]+)/,
   },
 ];
 
+/**
+ * iOS User-Agent pattern
+ * 
+ * Every browser on iOS and iPadOS has to use the system WebKit, whatever
+ * brand it reports. The third-party browser tokens also cover iPads in
+ * desktop mode, whose UA strings claim to be a Mac. Opera Touch's OPT/ token
+ * is left out, as it is also sent on Android.
+ * 
+ * @see https://developer.apple.com/app-store/review/guidelines/#2.5.6 - App Store Review Guideline 2.5.6
+ */
+export const IOS_USER_AGENT_PATTERN = /iPhone|iPad|iPod|CriOS\/|FxiOS\/|EdgiOS\/|OPiOS\//;
+
 /**
  * Rendering engine detection patterns for User-Agent string parsing
  * 
@@ -90,8 +206,12 @@ export const BROWSER_PATTERNS: Array<{
  * - Blink: Chromium-based browsers (Chrome, Edge, Brave, Opera, Vivaldi)
  * - Gecko: Firefox and Seamonkey
  * - WebKit: Safari
+ * - Trident: Internet Explorer
+ * - EdgeHTML: Edge Legacy
+ * - Presto: Opera 12-
  * 
  * Note: Modern Edge uses Blink, not EdgeHTML. EdgeHTML was only used in legacy Edge (pre-2020).
+ * Legacy engines come first, since Edge Legacy also sends a Chrome/ token.
  * 
  * @see https://en.wikipedia.org/wiki/Browser_engine - Browser engine comparison
  */
@@ -100,6 +220,21 @@ export const ENGINE_PATTERNS: Array<{
   pattern: RegExp;
   versionPattern?: RegExp;
 }> = [
+  {
+    name: "Trident",
+    pattern: /Trident\//,
+    versionPattern: /Trident\/([0-9.]+)/,
+  },
+  {
+    name: "EdgeHTML",
+    pattern: /Edge\/[0-9]/,
+    versionPattern: /Edge\/([0-9.]+)/,
+  },
+  {
+    name: "Presto",
+    pattern: /Presto\//,
+    versionPattern: /Presto\/([0-9.]+)/,
+  },
   {
     name: "Blink",
     pattern: /Chrome\//,
@@ -132,7 +267,16 @@ export const CHROMIUM_BROWSERS: BrowserName[] = [
   "Brave",
   "Samsung Internet",
   "Vivaldi",
+  "Opera",
   "Opera15+",
+  "Opera GX",
+  "Yandex",
+  "UC Browser",
+  "Huawei Browser",
+  "Mi Browser",
+  "Whale",
+  "QQ Browser",
+  "DuckDuckGo",
 ];
 
 /**
@@ -144,6 +288,15 @@ export const CHROMIUM_BROWSERS: BrowserName[] = [
  */
 export const GECKO_BROWSERS: BrowserName[] = ["Firefox", "Seamonkey"];
 
+/**
+ * Browsers whose rendering engine depends on the build
+ * 
+ * Firefox Focus on Android used the Android System WebView (Blink) before
+ * switching to GeckoView, so its engine is taken from the User-Agent tokens:
+ * Blink with a Chrome/ token, Gecko with rv: or Gecko/.
+ */
+export const DUAL_ENGINE_BROWSERS: BrowserName[] = ["Firefox Focus"];
+
 /**
  * WebKit-based browsers that use the WebKit rendering engine
  * 
@@ -153,3 +306,231 @@ export const GECKO_BROWSERS: BrowserName[] = ["Firefox", "Seamonkey"];
  * @see https://webkit.org/ - WebKit project
  */
 export const WEBKIT_BROWSERS: BrowserName[] = ["Safari"];
+
+/**
+ * Internet Explorer versions that use the Trident rendering engine
+ * 
+ * Trident was used from IE 4 to IE 11; IE mode in modern Edge reports the
+ * IE 11 User-Agent. The `Trident/` token is only sent since IE 8.
+ * 
+ * @see https://en.wikipedia.org/wiki/Trident_(software) - Trident engine history
+ */
+export const TRIDENT_BROWSERS: BrowserName[] = ["Internet Explorer"];
+
+/**
+ * Legacy Edge versions (12-18) that use the EdgeHTML rendering engine
+ * 
+ * EdgeHTML is a Trident fork that was replaced by Blink in Edge 79.
+ * 
+ * @see https://en.wikipedia.org/wiki/EdgeHTML - EdgeHTML engine history
+ */
+export const EDGEHTML_BROWSERS: BrowserName[] = ["Edge Legacy"];
+
+/**
+ * Opera versions up to 12 that use the Presto rendering engine
+ * 
+ * Opera switched to Blink with Opera 15.
+ * 
+ * @see https://en.wikipedia.org/wiki/Presto_(browser_engine) - Presto engine history
+ */
+export const PRESTO_BROWSERS: BrowserName[] = ["Opera12-"];
+
+/**
+ * Bot detection patterns for User-Agent string parsing
+ * 
+ * Bots are identified by the product token in their User-Agent string. Many
+ * of them also contain browser tokens (e.g. Googlebot renders pages with
+ * Chrome), so bots are detected independently of the browser.
+ * 
+ * The first matching pattern wins; tokens that contain other tokens (e.g.
+ * "Slackbot-LinkExpanding") only need the shorter one.
+ * 
+ * @see https://developers.google.com/search/docs/crawling-indexing/overview-google-crawlers - Google crawlers
+ * @see https://platform.openai.com/docs/bots - OpenAI crawlers
+ */
+export const BOT_PATTERNS: Array<{
+  name: string;
+  category: BotCategory;
+  pattern: RegExp;
+}> = [
+  // AI crawlers
+  { name: "GPTBot", category: "ai-crawler", pattern: /GPTBot/i },
+  { name: "ChatGPT-User", category: "ai-crawler", pattern: /ChatGPT-User/i },
+  { name: "OAI-SearchBot", category: "ai-crawler", pattern: /OAI-SearchBot/i },
+  { name: "ClaudeBot", category: "ai-crawler", pattern: /ClaudeBot|Claude-Web|Claude-User|anthropic-ai/i },
+  { name: "CCBot", category: "ai-crawler", pattern: /CCBot/i },
+  { name: "PerplexityBot", category: "ai-crawler", pattern: /Perplexity(Bot|-User)/i },
+  { name: "Bytespider", category: "ai-crawler", pattern: /Bytespider/i },
+  { name: "Amazonbot", category: "ai-crawler", pattern: /Amazonbot/i },
+  { name: "Meta-ExternalAgent", category: "ai-crawler", pattern: /meta-external(agent|fetcher)/i },
+  { name: "cohere-ai", category: "ai-crawler", pattern: /cohere-(ai|training-data-crawler)/i },
+  { name: "Diffbot", category: "ai-crawler", pattern: /Diffbot/i },
+
+  // Search engine crawlers
+  { name: "Googlebot", category: "search", pattern: /Googlebot|Google-InspectionTool|Storebot-Google/i },
+  { name: "Bingbot", category: "search", pattern: /bingbot|BingPreview|msnbot/i },
+  { name: "DuckDuckBot", category: "search", pattern: /DuckDuckBot/i },
+  { name: "YandexBot", category: "search", pattern: /YandexBot|YandexMobileBot/i },
+  { name: "Baiduspider", category: "search", pattern: /Baiduspider/i },
+  { name: "Applebot", category: "search", pattern: /Applebot/i },
+  { name: "Yahoo! Slurp", category: "search", pattern: /Yahoo! Slurp/i },
+  { name: "SeznamBot", category: "search", pattern: /SeznamBot/i },
+  { name: "Sogou", category: "search", pattern: /Sogou web spider/i },
+
+  // Social link preview fetchers
+  { name: "facebookexternalhit", category: "social-preview", pattern: /facebookexternalhit|Facebot/i },
+  { name: "Twitterbot", category: "social-preview", pattern: /Twitterbot/i },
+  { name: "Slackbot", category: "social-preview", pattern: /Slackbot|Slack-ImgProxy/i },
+  { name: "LinkedInBot", category: "social-preview", pattern: /LinkedInBot/i },
+  { name: "Discordbot", category: "social-preview", pattern: /Discordbot/i },
+  { name: "TelegramBot", category: "social-preview", pattern: /TelegramBot/i },
+  { name: "WhatsApp", category: "social-preview", pattern: /^WhatsApp\//i },
+  { name: "Pinterestbot", category: "social-preview", pattern: /Pinterestbot|Pinterest\/0\./i },
+  { name: "redditbot", category: "social-preview", pattern: /redditbot/i },
+  { name: "Embedly", category: "social-preview", pattern: /Embedly/i },
+  { name: "SkypeUriPreview", category: "social-preview", pattern: /SkypeUriPreview/i },
+
+  // Monitoring agents
+  { name: "UptimeRobot", category: "monitor", pattern: /UptimeRobot/i },
+  { name: "Pingdom", category: "monitor", pattern: /Pingdom/i },
+  { name: "StatusCake", category: "monitor", pattern: /StatusCake/i },
+  { name: "Site24x7", category: "monitor", pattern: /Site24x7/i },
+  { name: "Datadog", category: "monitor", pattern: /Datadog(Synthetics|Agent)/i },
+  { name: "New Relic", category: "monitor", pattern: /NewRelicPinger|New Relic Synthetics/i },
+  { name: "Better Uptime", category: "monitor", pattern: /Better ?Uptime/i },
+  { name: "Lighthouse", category: "monitor", pattern: /Chrome-Lighthouse/i },
+  { name: "GTmetrix", category: "monitor", pattern: /GTmetrix/i },
+
+  // Command line tools and HTTP client libraries
+  { name: "curl", category: "http-library", pattern: /^curl\//i },
+  { name: "Wget", category: "http-library", pattern: /^Wget\//i },
+  { name: "HTTPie", category: "http-library", pattern: /^HTTPie\//i },
+  { name: "python-requests", category: "http-library", pattern: /python-requests/i },
+  { name: "aiohttp", category: "http-library", pattern: /aiohttp/i },
+  { name: "python-httpx", category: "http-library", pattern: /python-httpx/i },
+  { name: "Python-urllib", category: "http-library", pattern: /Python-urllib/i },
+  { name: "axios", category: "http-library", pattern: /^axios\//i },
+  { name: "node-fetch", category: "http-library", pattern: /node-fetch/i },
+  { name: "undici", category: "http-library", pattern: /^undici/i },
+  { name: "Go-http-client", category: "http-library", pattern: /Go-http-client/i },
+  { name: "okhttp", category: "http-library", pattern: /okhttp/i },
+  { name: "Apache-HttpClient", category: "http-library", pattern: /Apache-HttpClient/i },
+  { name: "Java", category: "http-library", pattern: /^Java\//i },
+  { name: "libwww-perl", category: "http-library", pattern: /libwww-perl/i },
+  { name: "PostmanRuntime", category: "http-library", pattern: /PostmanRuntime/i },
+];
+
+/**
+ * In-app browser detection patterns for User-Agent string parsing
+ * 
+ * Social apps open links in embedded WebViews that add an app token to the
+ * regular Chrome (Android) or Safari (iOS) User-Agent string. The browser is
+ * still detected from the rest of the string.
+ * 
+ * Instagram comes before Facebook, as Instagram's WebView may also contain
+ * Facebook tokens.
+ */
+export const IN_APP_BROWSER_PATTERNS: Array<{
+  name: InAppBrowserName;
+  pattern: RegExp;
+  versionPattern?: RegExp;
+}> = [
+  {
+    name: "Instagram",
+    pattern: /Instagram/,
+    versionPattern: /Instagram ([0-9.]+)/,
+  },
+  {
+    name: "Facebook",
+    pattern: /FBAN\/|FBAV\/|FB_IAB\//,
+    versionPattern: /FBAV\/([0-9.]+)/,
+  },
+  {
+    name: "TikTok",
+    pattern: /musical_ly|BytedanceWebview|TikTok/,
+    versionPattern: /(?:musical_ly|TikTok)_([0-9.]+)/,
+  },
+  {
+    name: "LinkedIn",
+    pattern: /LinkedInApp/,
+    versionPattern: /LinkedInApp\/([0-9.]+)/,
+  },
+  {
+    name: "WeChat",
+    pattern: /MicroMessenger\//,
+    versionPattern: /MicroMessenger\/([0-9.]+)/,
+  },
+  {
+    name: "Line",
+    pattern: /\sLine\//,
+    versionPattern: /\sLine\/([0-9.]+)/,
+  },
+  {
+    name: "Snapchat",
+    pattern: /Snapchat/,
+    versionPattern: /Snapchat\/([0-9.]+)/,
+  },
+];
+
+/**
+ * App shell detection patterns for User-Agent string parsing
+ * 
+ * Electron adds its own token to the Chrome User-Agent by default. The other
+ * shells only do so when the app appends a token (e.g. Capacitor's
+ * `appendUserAgent` option), so they are mainly detected from their globals
+ * in the browser.
+ */
+export const SHELL_PATTERNS: Array<{
+  name: ShellName;
+  pattern: RegExp;
+  versionPattern?: RegExp;
+}> = [
+  {
+    name: "Electron",
+    pattern: /Electron\//,
+    versionPattern: /Electron\/([0-9.]+)/,
+  },
+  {
+    name: "Tauri",
+    pattern: /Tauri\//,
+    versionPattern: /Tauri\/([0-9.]+)/,
+  },
+  {
+    name: "Capacitor",
+    pattern: /Capacitor\//,
+    versionPattern: /Capacitor\/([0-9.]+)/,
+  },
+  {
+    name: "Cordova",
+    pattern: /Cordova\//,
+    versionPattern: /Cordova\/([0-9.]+)/,
+  },
+  {
+    name: "NW.js",
+    pattern: /\bnwjs\b|NWjs\//i,
+    versionPattern: /NWjs\/([0-9.]+)/i,
+  },
+];
+
+/**
+ * Linux distribution detection patterns for User-Agent string parsing
+ * 
+ * Only some browser builds name the distribution, e.g. Firefox from the
+ * Ubuntu and Fedora repositories (`X11; Ubuntu; Linux x86_64`). Derived
+ * distributions come before their base (Linux Mint and Manjaro before
+ * Ubuntu and Arch Linux).
+ */
+export const LINUX_DISTRIBUTION_PATTERNS: Array<{
+  name: LinuxDistribution;
+  pattern: RegExp;
+}> = [
+  { name: "Linux Mint", pattern: /Linux ?Mint/i },
+  { name: "Manjaro", pattern: /Manjaro/i },
+  { name: "Ubuntu", pattern: /Ubuntu/i },
+  { name: "Fedora", pattern: /Fedora/i },
+  { name: "Debian", pattern: /Debian/i },
+  { name: "openSUSE", pattern: /SUSE/i },
+  { name: "Arch Linux", pattern: /Arch ?Linux/i },
+  { name: "CentOS", pattern: /CentOS/i },
+  { name: "Red Hat", pattern: /Red ?Hat/i },
+];
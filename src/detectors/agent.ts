@@ -0,0 +1,116 @@
+import type { Agent, UseUserAgentOptions, NavigatorUAData } from '../types';
+import { isSSR } from '../utils/ssr';
+import { detectFromClientHints } from './clientHints';
+import { detectBrowser, detectDevice, detectRenderingEngine } from './userAgentString';
+import { getDeviceTypeClassification } from './device';
+import { detectBot } from './bot';
+import { detectInAppBrowser } from './inAppBrowser';
+import { detectEmbedding } from './embedding';
+import { detectShell } from './shell';
+import { detectOS, resolveOS } from './os';
+
+/**
+ * Agent data used during server-side rendering
+ * 
+ * Browser APIs are not available on the server, so all detected properties are
+ * undefined. The object is shared so it can be used as a stable snapshot.
+ */
+export const SSR_AGENT: Agent = {
+  device: undefined,
+  browser: undefined,
+  renderingEngine: undefined,
+  detectionMethod: 'ssr',
+  status: 'idle',
+};
+
+/**
+ * Detects the current agent in the browser
+ * 
+ * Runs the complete client-side detection: the User-Agent Client Hints API is
+ * used when `navigator.userAgentData` is available, otherwise the User-Agent
+ * string is parsed. In SSR environments an empty agent with
+ * `detectionMethod: 'ssr'` is returned.
+ * 
+ * Like `detectFromClientHints`, the result is synchronous unless high-entropy
+ * values are requested from the Client Hints API.
+ * 
+ * This is the single detection pass behind the shared user agent store.
+ * 
+ * @param options - Detection options including high entropy requests
+ * @returns Promise resolving to Agent data (if high entropy requested) or synchronous Agent data
+ * 
+ * @example
+ * ```typescript
+ * // Synchronous detection
+ * const agent = detectAgent();
+ * 
+ * // With high entropy values (asynchronous if Client Hints are available)
+ * const agent = await detectAgent({ highEntropy: true });
+ * ```
+ */
+export function detectAgent(options?: UseUserAgentOptions): Agent | Promise<Agent> {
+  // Check if running in SSR environment
+  if (isSSR()) {
+    return SSR_AGENT;
+  }
+
+  const navigator = window.navigator;
+
+  // Bots, in-app browsers, WebViews and app shells are identified by their
+  // User-Agent tokens and globals with either detection method
+  const bot = detectBot(navigator);
+  const inAppBrowser = detectInAppBrowser(navigator);
+  const embedding = detectEmbedding(navigator);
+  const shell = detectShell(navigator);
+
+  // Check if Client Hints API is available
+  const userAgentData = getUserAgentData();
+
+  if (userAgentData) {
+    // Use Client Hints API as primary detection method
+    const agent = detectFromClientHints(userAgentData, options);
+    // The OS version falls back to the User-Agent string without high-entropy values
+    const withUserAgentData = (result: Agent): Agent => ({
+      ...result,
+      os: result.device
+        ? resolveOS(result.device.platform, result.device.platformVersion, navigator.userAgent)
+        : undefined,
+      bot,
+      inAppBrowser,
+      embedding,
+      shell,
+    });
+    return agent instanceof Promise ? agent.then(withUserAgentData) : withUserAgentData(agent);
+  }
+
+  // Fallback to User-Agent string parsing
+  const browser = detectBrowser(navigator);
+  const device = detectDevice(navigator);
+  const renderingEngine = detectRenderingEngine(browser?.name, navigator);
+
+  return {
+    browser,
+    device,
+    renderingEngine,
+    detectionMethod: 'user-agent-string',
+    deviceType: device ? getDeviceTypeClassification(device.isMobile, device.device) : undefined,
+    bot,
+    inAppBrowser,
+    embedding,
+    shell,
+    os: detectOS(navigator),
+  };
+}
+
+/**
+ * Returns the Client Hints API object of the current browser
+ * 
+ * @returns navigator.userAgentData, or undefined if unsupported or during SSR
+ */
+export function getUserAgentData(): NavigatorUAData | undefined {
+  if (isSSR()) {
+    return undefined;
+  }
+
+  return (window.navigator as any).userAgentData as NavigatorUAData | undefined;
+}
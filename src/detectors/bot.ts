@@ -0,0 +1,54 @@
+import type { BotInfo } from '../types';
+import { BOT_PATTERNS } from '../constants/patterns';
+
+/**
+ * Detects whether the current agent is a bot
+ *
+ * Crawlers that execute JavaScript (e.g. Googlebot's rendering service) keep
+ * their bot token in `navigator.userAgent`, so bots can be recognized in the
+ * browser as well as on the server.
+ *
+ * @param navigator - The Navigator object containing the userAgent string
+ * @returns Bot name and category, or undefined for regular browsers
+ *
+ * @example
+ * ```typescript
+ * const bot = detectBot(window.navigator);
+ * if (bot?.category === 'search') {
+ *   // Skip the cookie banner for search engines
+ * }
+ * ```
+ */
+export function detectBot(navigator: Navigator): BotInfo | undefined {
+  return parseBot(navigator.userAgent);
+}
+
+/**
+ * Detects a bot from a raw User-Agent string
+ *
+ * Matches the User-Agent against known search engine crawlers, social link
+ * preview fetchers, monitoring agents, AI crawlers and HTTP client libraries.
+ * The browser is still detected separately, so a bot rendering with Chrome
+ * reports both the bot and the Chrome browser.
+ *
+ * @param userAgent - The User-Agent string to parse
+ * @returns Bot name and category, or undefined for regular browsers
+ *
+ * @example
+ * ```typescript
+ * parseBot('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)');
+ * // { name: 'Googlebot', category: 'search' }
+ *
+ * parseBot('curl/8.4.0');
+ * // { name: 'curl', category: 'http-library' }
+ * ```
+ */
+export function parseBot(userAgent: string): BotInfo | undefined {
+  if (!userAgent || typeof userAgent !== 'string') {
+    return undefined;
+  }
+
+  const match = BOT_PATTERNS.find(({ pattern }) => pattern.test(userAgent));
+
+  return match ? { name: match.name, category: match.category } : undefined;
+}
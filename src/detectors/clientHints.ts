@@ -4,12 +4,14 @@ import type {
   DeviceInfo,
   NavigatorUAData,
   UADataValues,
-  UseUserAgentOptions,
+  DetectionOptions,
   BrowserName,
   Platform,
   Device,
 } from '../types';
 import { detectDeviceFromClientHints, getDeviceTypeClassification } from './device';
+import { resolveOS } from './os';
+import { DEFAULT_HIGH_ENTROPY_HINTS, HIGH_ENTROPY_TIMEOUT_MS } from '../constants/clientHints';
 
 /**
  * Detects browser and device information using User-Agent Client Hints API
@@ -30,6 +32,8 @@ import { detectDeviceFromClientHints, getDeviceTypeClassification } from './devi
  * @param options - Detection options including high entropy requests
  * @param options.highEntropy - Whether to request high-entropy values (requires permission)
  * @param options.hints - Specific high-entropy hints to request (architecture, model, etc.)
+ * @param options.timeoutMs - Milliseconds to wait for high-entropy values (default: 5000)
+ * @param options.signal - AbortSignal cancelling the high-entropy request
  * @returns Promise resolving to Agent data (if high entropy requested) or synchronous Agent data
  * 
  * @example
@@ -47,11 +51,19 @@ import { detectDeviceFromClientHints, getDeviceTypeClassification } from './devi
  *   highEntropy: true,
  *   hints: ['architecture', 'model']
  * });
+ * 
+ * // With a custom timeout and cancellation
+ * const controller = new AbortController();
+ * const agent = await detectFromClientHints(navigator.userAgentData, {
+ *   highEntropy: true,
+ *   timeoutMs: 2000,
+ *   signal: controller.signal
+ * });
  * ```
  */
 export function detectFromClientHints(
   userAgentData: NavigatorUAData,
-  options?: UseUserAgentOptions
+  options?: DetectionOptions
 ): Agent | Promise<Agent> {
   try {
     // Validate input
@@ -88,6 +100,8 @@ export function detectFromClientHints(
       browser: undefined,
       renderingEngine: undefined,
       detectionMethod: 'client-hints',
+      status: 'failed',
+      error: toError(error),
     };
   }
 }
@@ -106,10 +120,12 @@ export function detectFromClientHints(
  * 
  * @see https://wicg.github.io/ua-client-hints/#low-entropy-hint-table - Low-entropy hints specification
  * 
- * @param userAgentData - The navigator.userAgentData object from Client Hints API
- * @returns Agent data with low-entropy information (browser, device, detection method)
+ * @param userAgentData - The navigator.userAgentData object (or equivalent low-entropy values)
+ * @returns Agent data with low-entropy information (browser, device, detection method, `entropy: 'low'`)
  */
-function extractLowEntropyData(userAgentData: NavigatorUAData): Agent {
+export function extractLowEntropyData(
+  userAgentData: Pick<NavigatorUAData, 'brands' | 'mobile' | 'platform'>
+): Agent {
   try {
     const browser = extractBrowserFromBrands(userAgentData.brands);
     const device = detectDeviceFromClientHints(userAgentData);
@@ -119,6 +135,8 @@ function extractLowEntropyData(userAgentData: NavigatorUAData): Agent {
       device,
       detectionMethod: 'client-hints',
       deviceType: getDeviceTypeClassification(device.isMobile, device.device),
+      os: resolveOS(device.platform),
+      entropy: 'low',
     };
   } catch (error) {
     // Never throw errors - return minimal agent data
@@ -130,6 +148,8 @@ function extractLowEntropyData(userAgentData: NavigatorUAData): Agent {
       browser: undefined,
       renderingEngine: undefined,
       detectionMethod: 'client-hints',
+      status: 'failed',
+      error: toError(error),
     };
   }
 }
@@ -146,7 +166,8 @@ function extractLowEntropyData(userAgentData: NavigatorUAData): Agent {
  * "Not" or similar) to prevent passive fingerprinting. These are filtered out.
  * 
  * Priority order:
- * 1. Specific browsers (Edge, Brave, Samsung Internet, Vivaldi, Arc, Opera)
+ * 1. Specific browsers (Edge, Brave, Samsung Internet, Vivaldi, Arc, Yandex,
+ *    DuckDuckGo, UC, Huawei, Mi, Whale, QQ, Opera GX, Opera)
  * 2. Generic Chromium browsers (Chrome, Chromium)
  * 
  * @see https://wicg.github.io/ua-client-hints/#interface - NavigatorUAData.brands
@@ -155,7 +176,7 @@ function extractLowEntropyData(userAgentData: NavigatorUAData): Agent {
  * @param brands - Array of brand objects with brand name and version from Client Hints
  * @returns Browser information with name and version, or undefined if no recognizable browser found
  */
-function extractBrowserFromBrands(
+export function extractBrowserFromBrands(
   brands: Array<{ brand: string; version: string }>
 ): BrowserInfo | undefined {
   try {
@@ -174,6 +195,14 @@ function extractBrowserFromBrands(
       { pattern: /Samsung Internet/i, name: 'Samsung Internet' },
       { pattern: /Vivaldi/i, name: 'Vivaldi' },
       { pattern: /Arc/i, name: 'Arc' },
+      { pattern: /YaBrowser|Yandex/i, name: 'Yandex' },
+      { pattern: /DuckDuckGo/i, name: 'DuckDuckGo' },
+      { pattern: /UC ?Browser/i, name: 'UC Browser' },
+      { pattern: /Huawei ?Browser/i, name: 'Huawei Browser' },
+      { pattern: /Mi(ui)? ?Browser/i, name: 'Mi Browser' },
+      { pattern: /Whale/i, name: 'Whale' },
+      { pattern: /QQ ?Browser/i, name: 'QQ Browser' },
+      { pattern: /Opera GX/i, name: 'Opera GX' },
       { pattern: /Opera/i, name: 'Opera' },
       { pattern: /Google Chrome/i, name: 'Chrome' },
       { pattern: /Chromium/i, name: 'Chromium' },
@@ -231,8 +260,11 @@ function extractBrowserFromBrands(
  * - Platform version: Detailed OS version
  * - Full browser version: Complete version string
  * 
- * The function implements a 5-second timeout to prevent hanging if the browser
- * doesn't respond. On timeout or error, it falls back to low-entropy data.
+ * The function implements a timeout (5 seconds unless `options.timeoutMs` is set)
+ * to prevent hanging if the browser doesn't respond, and can be cancelled through
+ * `options.signal`. The timer and abort listener are always cleaned up. On timeout,
+ * cancellation or error, it falls back to low-entropy data with `status: 'failed'`
+ * and the cause in `error`.
  * 
  * @see https://wicg.github.io/ua-client-hints/#high-entropy-hint-table - High-entropy hints specification
  * @see https://wicg.github.io/ua-client-hints/#getHighEntropyValues - getHighEntropyValues method
@@ -240,43 +272,57 @@ function extractBrowserFromBrands(
  * @param userAgentData - The navigator.userAgentData object from Client Hints API
  * @param lowEntropyAgent - Agent data with low-entropy information to merge with
  * @param options - Detection options with hints specification (which high-entropy values to request)
+ * @param options.timeoutMs - Milliseconds to wait for the values before falling back
+ * @param options.signal - AbortSignal cancelling the request
  * @returns Promise resolving to Agent data with high-entropy information merged in
  */
-async function getHighEntropyData(
+export async function getHighEntropyData(
   userAgentData: NavigatorUAData,
   lowEntropyAgent: Agent,
-  options: UseUserAgentOptions
+  options: DetectionOptions
 ): Promise<Agent> {
+  const { signal } = options;
+  const timeoutMs = options.timeoutMs ?? HIGH_ENTROPY_TIMEOUT_MS;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+
   try {
+    // Don't request anything if the caller already gave up
+    signal?.throwIfAborted();
+
     // Default hints to request if not specified
-    const hints = options.hints || [
-      'architecture',
-      'model',
-      'platformVersion',
-      'uaFullVersion',
-    ];
+    const hints = options.hints || DEFAULT_HIGH_ENTROPY_HINTS;
     
-    // Request high entropy values with timeout
+    // Request high entropy values with timeout and cancellation
     const highEntropyValues = await Promise.race([
       userAgentData.getHighEntropyValues(hints),
-      new Promise<null>((_, reject) =>
-        setTimeout(() => reject(new Error('Timeout')), 5000)
-      ),
-    ]) as UADataValues | null;
-    
-    if (!highEntropyValues) {
-      // Timeout occurred, return low-entropy data
-      return lowEntropyAgent;
-    }
+      new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => reject(new Error('Timeout')), timeoutMs);
+      }),
+      new Promise<never>((_, reject) => {
+        onAbort = () => reject(signal?.reason);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }),
+    ]);
     
     // Merge high entropy data with low entropy data
     return mergeHighEntropyData(lowEntropyAgent, highEntropyValues);
   } catch (error) {
     // On error, fall back to low-entropy data
-    if (process.env.NODE_ENV === 'development') {
+    if (process.env.NODE_ENV === 'development' && !signal?.aborted) {
       console.warn('Failed to retrieve high entropy values:', error);
     }
-    return lowEntropyAgent;
+    return {
+      ...lowEntropyAgent,
+      status: 'failed',
+      error: toError(error),
+    };
+  } finally {
+    // Never leave the timer or abort listener behind
+    clearTimeout(timeoutId);
+    if (onAbort) {
+      signal?.removeEventListener('abort', onAbort);
+    }
   }
 }
 
@@ -285,29 +331,38 @@ async function getHighEntropyData(
  * 
  * Takes the low-entropy agent data and enriches it with high-entropy values
  * from the Client Hints API. This includes adding architecture, model, and
- * platform version to device info, and full version to browser info.
+ * platform version to device info, the OS version name (e.g. "Windows 11"),
+ * and full version to browser info.
  * 
  * If fullVersionList is available (more accurate than brands), it's used to
  * update the browser information with more precise version data.
  * 
+ * Values that were not part of this request keep their previous value, so
+ * results of several on-demand requests accumulate.
+ * 
  * @param agent - Agent data with low-entropy information
  * @param highEntropyValues - High-entropy values from Client Hints API getHighEntropyValues()
- * @returns Agent data with merged high-entropy information
+ * @returns Agent data with merged high-entropy information (`entropy: 'high'`)
  */
-function mergeHighEntropyData(
+export function mergeHighEntropyData(
   agent: Agent,
   highEntropyValues: UADataValues
 ): Agent {
-  const updatedAgent: Agent = { ...agent };
+  const updatedAgent: Agent = { ...agent, entropy: 'high' };
   
   // Update device info with high entropy data
   if (agent.device) {
     updatedAgent.device = {
       ...agent.device,
-      architecture: highEntropyValues.architecture,
-      model: highEntropyValues.model,
-      platformVersion: highEntropyValues.platformVersion,
+      architecture: highEntropyValues.architecture ?? agent.device.architecture,
+      model: highEntropyValues.model ?? agent.device.model,
+      platformVersion: highEntropyValues.platformVersion ?? agent.device.platformVersion,
     };
+
+    // The high-entropy platformVersion replaces the User-Agent fallback
+    if (highEntropyValues.platformVersion) {
+      updatedAgent.os = resolveOS(agent.device.platform, highEntropyValues.platformVersion);
+    }
   }
   
   // Update browser info with full version
@@ -324,10 +379,20 @@ function mergeHighEntropyData(
     if (browser) {
       updatedAgent.browser = {
         ...browser,
-        fullVersion: highEntropyValues.uaFullVersion,
+        fullVersion: highEntropyValues.uaFullVersion ?? agent.browser?.fullVersion,
       };
     }
   }
   
   return updatedAgent;
 }
+
+/**
+ * Normalizes a caught value to an Error instance
+ * 
+ * @param error - The caught value
+ * @returns The value itself if it is an Error, otherwise an Error wrapping it
+ */
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
@@ -0,0 +1,194 @@
+import type { Agent, RequestHeaders, UADataValues } from '../types';
+import { extractLowEntropyData, mergeHighEntropyData } from './clientHints';
+import { parseUserAgent } from './userAgentString';
+import { parseBot } from './bot';
+import { parseInAppBrowser } from './inAppBrowser';
+import { parseEmbedding } from './embedding';
+import { parseShell } from './shell';
+import { resolveOS } from './os';
+
+/**
+ * Server-side Client Hints detection module
+ * 
+ * This module builds Agent data from the `Sec-CH-UA-*` request headers that
+ * Chromium-based browsers send to servers. It reuses the same brand-priority
+ * and merge logic as the in-browser `detectFromClientHints`, so server and
+ * client arrive at the same result.
+ * 
+ * @see https://wicg.github.io/ua-client-hints/#http-ua-hints - Client Hints request headers
+ * @see https://www.rfc-editor.org/rfc/rfc8941 - Structured Field Values for HTTP
+ */
+
+/**
+ * Detects browser and device information from Client Hints request headers
+ * 
+ * Reads the low-entropy headers (`Sec-CH-UA`, `Sec-CH-UA-Mobile`, `Sec-CH-UA-Platform`)
+ * and, when the server requested them via `Accept-CH`, the high-entropy headers
+ * (`Sec-CH-UA-Full-Version-List`, `Sec-CH-UA-Model`, `Sec-CH-UA-Arch`,
+ * `Sec-CH-UA-Platform-Version`).
+ * 
+ * When no `Sec-CH-UA` header is present (e.g. Firefox, Safari, or a non-secure
+ * context), detection falls back to parsing the `User-Agent` header.
+ * 
+ * @param headers - Request headers as a Fetch `Headers` object or a plain object (e.g. Node's `req.headers`)
+ * @returns Agent data detected from the request headers
+ * 
+ * @example
+ * ```typescript
+ * // In an edge function
+ * export default function handler(request: Request) {
+ *   const agent = parseClientHintsHeaders(request.headers);
+ *   console.log(agent.browser?.name); // "Chrome"
+ *   console.log(agent.detectionMethod); // "client-hints"
+ * }
+ * ```
+ */
+export function parseClientHintsHeaders(headers: RequestHeaders): Agent {
+  try {
+    const brandsHeader = getHeader(headers, 'sec-ch-ua');
+
+    // Fallback to User-Agent string parsing when hints are absent
+    if (!brandsHeader) {
+      return parseUserAgent(getHeader(headers, 'user-agent') ?? '');
+    }
+
+    const brands = parseBrandList(brandsHeader);
+    const mobile = parseBoolean(getHeader(headers, 'sec-ch-ua-mobile'));
+    const platform = parseString(getHeader(headers, 'sec-ch-ua-platform')) ?? '';
+    const userAgent = getHeader(headers, 'user-agent') ?? '';
+    const lowEntropyData = extractLowEntropyData({ brands, mobile, platform });
+    const lowEntropyAgent: Agent = {
+      ...lowEntropyData,
+      status: lowEntropyData.status ?? 'complete',
+      os: lowEntropyData.device
+        ? resolveOS(lowEntropyData.device.platform, undefined, userAgent)
+        : undefined,
+      bot: parseBot(userAgent),
+      inAppBrowser: parseInAppBrowser(userAgent),
+      embedding: parseEmbedding(userAgent),
+      shell: parseShell(userAgent),
+    };
+
+    const fullVersionList = getHeader(headers, 'sec-ch-ua-full-version-list');
+    const architecture = getHeader(headers, 'sec-ch-ua-arch');
+    const model = getHeader(headers, 'sec-ch-ua-model');
+    const platformVersion = getHeader(headers, 'sec-ch-ua-platform-version');
+    const uaFullVersion = getHeader(headers, 'sec-ch-ua-full-version');
+
+    // Only merge when the client actually sent high-entropy hints
+    if (
+      fullVersionList === undefined &&
+      architecture === undefined &&
+      model === undefined &&
+      platformVersion === undefined &&
+      uaFullVersion === undefined
+    ) {
+      return lowEntropyAgent;
+    }
+
+    const highEntropyValues: UADataValues = {
+      brands,
+      mobile,
+      platform,
+      architecture: parseString(architecture),
+      model: parseString(model),
+      platformVersion: parseString(platformVersion),
+      uaFullVersion: parseString(uaFullVersion),
+      fullVersionList: fullVersionList ? parseBrandList(fullVersionList) : undefined,
+    };
+
+    return mergeHighEntropyData(lowEntropyAgent, highEntropyValues);
+  } catch (error) {
+    // Never throw errors - return minimal agent data
+    if (process.env.NODE_ENV === 'development') {
+      console.warn('Error in parseClientHintsHeaders:', error);
+    }
+    return {
+      device: undefined,
+      browser: undefined,
+      renderingEngine: undefined,
+      detectionMethod: 'client-hints',
+      status: 'failed',
+    };
+  }
+}
+
+/**
+ * Reads a header value case-insensitively
+ * 
+ * Supports both Fetch `Headers` objects and plain header objects. Multiple
+ * values (as Node.js may provide for repeated headers) are joined with a comma,
+ * which is equivalent for list-based structured headers.
+ * 
+ * @param headers - Request headers
+ * @param name - Lower-case header name
+ * @returns The header value, or undefined if the header is absent
+ */
+function getHeader(headers: RequestHeaders, name: string): string | undefined {
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+
+  for (const [key, value] of Object.entries(headers as Record<string, string | string[] | undefined>)) {
+    if (key.toLowerCase() === name) {
+      return Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Parses a brand list header (`Sec-CH-UA`, `Sec-CH-UA-Full-Version-List`)
+ * 
+ * The header is a structured field list of strings with a `v` parameter,
+ * e.g. `"Chromium";v="120", "Google Chrome";v="120", "Not?A_Brand";v="8"`.
+ * 
+ * @param value - Raw header value
+ * @returns Array of brand objects in the same shape as NavigatorUAData.brands
+ */
+function parseBrandList(value: string): Array<{ brand: string; version: string }> {
+  const brands: Array<{ brand: string; version: string }> = [];
+  const pattern = /"((?:[^"\\]|\\.)*)"\s*;\s*v\s*=\s*"((?:[^"\\]|\\.)*)"/g;
+
+  for (const match of value.matchAll(pattern)) {
+    brands.push({
+      brand: unescapeString(match[1]),
+      version: unescapeString(match[2]),
+    });
+  }
+
+  return brands;
+}
+
+/**
+ * Parses a structured field string (e.g. `"Windows"`) into its plain value
+ * 
+ * @param value - Raw header value
+ * @returns The unquoted string, or undefined if the header is absent
+ */
+function parseString(value: string | undefined): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const match = value.trim().match(/^"((?:[^"\\]|\\.)*)"/);
+  return match ? unescapeString(match[1]) : value.trim();
+}
+
+/**
+ * Parses a structured field boolean (`?1` / `?0`)
+ * 
+ * @param value - Raw header value
+ * @returns true for `?1`, false otherwise
+ */
+function parseBoolean(value: string | undefined): boolean {
+  return value?.trim() === '?1';
+}
+
+/**
+ * Removes structured field string escapes (`\"` and `\\`)
+ */
+function unescapeString(value: string): string {
+  return value.replace(/\\(["\\])/g, '$1');
+}
@@ -1,4 +1,5 @@
-import type { DeviceInfo, NavigatorUAData, Platform, Device } from '../types';
+import type { DeviceInfo, NavigatorUAData, Platform, Device, LinuxDistribution } from '../types';
+import { LINUX_DISTRIBUTION_PATTERNS } from '../constants/patterns';
 
 /**
  * Enhanced device type detection module
@@ -8,6 +9,7 @@ import type { DeviceInfo, NavigatorUAData, Platform, Device } from '../types';
  * - Tablet detection (isMobile: false, deviceType: "tablet")
  * - Desktop detection (isMobile: false, deviceType: "desktop")
  * - Chrome OS platform detection
+ * - HarmonyOS, KaiOS, Tizen, webOS, Fuchsia and BSD platform detection
  * - iPad detection (including modern iPads masquerading as Mac)
  * - Android tablet distinction from phones
  */
@@ -16,11 +18,15 @@ import type { DeviceInfo, NavigatorUAData, Platform, Device } from '../types';
  * Detects device information from User-Agent string
  * 
  * Provides comprehensive device detection including:
- * - Platform identification (Android, iOS, Windows, Mac OS, Linux, Chrome OS)
+ * - Platform identification (Android, iOS, Windows, Mac OS, Linux, Chrome OS,
+ *   HarmonyOS, KaiOS, Tizen, webOS, Fuchsia, FreeBSD, OpenBSD)
+ * - Linux distribution, when the User-Agent names it
  * - Device type classification (mobile phone, tablet, desktop)
  * - Mobile flag determination
  * - Special handling for modern iPads (iPadOS 13+) that masquerade as Mac
  * - Android tablet distinction from phones
+ * - OS version (`platformVersion`), flagged with `platformVersionFrozen` when
+ *   the browser reports a frozen or reduced value
  * 
  * @param navigator - The Navigator object containing userAgent and maxTouchPoints
  * @returns Device information with platform, device type, and mobile flag, or undefined if detection fails
@@ -35,8 +41,38 @@ import type { DeviceInfo, NavigatorUAData, Platform, Device } from '../types';
  */
 export function detectDeviceFromUA(navigator: Navigator): DeviceInfo | undefined {
   try {
-    const userAgent = navigator.userAgent;
+    return parseDeviceFromUA(navigator.userAgent, navigator.maxTouchPoints);
+  } catch (error) {
+    // Never throw errors for unrecognized patterns
+    if (process.env.NODE_ENV === 'development') {
+      console.warn('Error detecting device from User-Agent:', error);
+    }
+    return undefined;
+  }
+}
 
+/**
+ * Parses device information from a raw User-Agent string
+ * 
+ * String-based counterpart of `detectDeviceFromUA` that does not need a Navigator.
+ * Since modern iPads (iPadOS 13+) can only be told apart from Macs by their touch
+ * support, `maxTouchPoints` should be passed when it is known.
+ * 
+ * @param userAgent - The User-Agent string to parse
+ * @param maxTouchPoints - Optional `navigator.maxTouchPoints` value of the client
+ * @returns Device information with platform, device type, and mobile flag, or undefined if detection fails
+ * 
+ * @example
+ * ```typescript
+ * const device = parseDeviceFromUA(request.headers['user-agent']);
+ * console.log(device?.platform); // "Android"
+ * ```
+ */
+export function parseDeviceFromUA(
+  userAgent: string,
+  maxTouchPoints?: number
+): DeviceInfo | undefined {
+  try {
     // Handle empty or invalid user agent strings
     if (!userAgent || typeof userAgent !== 'string') {
       if (process.env.NODE_ENV === 'development') {
@@ -48,9 +84,23 @@ export function detectDeviceFromUA(navigator: Navigator): DeviceInfo | undefined
     let platform: Platform = "Unknown";
     let device: Device = "Unknown";
     let isMobile = false;
+    let distribution: LinuxDistribution | undefined;
 
+    // HarmonyOS NEXT detection (Android-compatible HarmonyOS 2-4 reports Android)
+    if (/OpenHarmony|HarmonyOS/i.test(userAgent) && !/Android/i.test(userAgent)) {
+      platform = "HarmonyOS";
+      const isTablet = /Tablet/i.test(userAgent);
+      isMobile = !isTablet && /Phone|Mobile/i.test(userAgent);
+      device = isTablet ? "Tablet" : isMobile ? "Unknown" : "Desktop PC";
+    }
+    // KaiOS detection (feature phones)
+    else if (/KAIOS/i.test(userAgent)) {
+      platform = "KaiOS";
+      isMobile = true;
+      device = "Unknown";
+    }
     // Android detection
-    if (/Android/i.test(userAgent)) {
+    else if (/Android/i.test(userAgent)) {
       platform = "Android";
       // Android tablets don't have "Mobile" in UA string
       isMobile = /Mobile/i.test(userAgent);
@@ -84,7 +134,7 @@ export function detectDeviceFromUA(navigator: Navigator): DeviceInfo | undefined
     else if (/Mac/i.test(userAgent)) {
       platform = "Mac OS";
       // Modern iPads (iPadOS 13+) report as Mac with touch support
-      if (navigator.maxTouchPoints && navigator.maxTouchPoints > 1) {
+      if (maxTouchPoints && maxTouchPoints > 1) {
         isMobile = false;
         device = "iPad";
         platform = "iOS";
@@ -99,11 +149,42 @@ export function detectDeviceFromUA(navigator: Navigator): DeviceInfo | undefined
       isMobile = false;
       device = "Desktop PC";
     }
+    // Tizen detection (Samsung TVs, watches and phones)
+    else if (/Tizen/i.test(userAgent)) {
+      platform = "Tizen";
+      isMobile = /Mobile/i.test(userAgent);
+      device = "Unknown";
+    }
+    // webOS detection (LG TVs send Web0S, Palm and HP devices webOS/hpwOS)
+    else if (/Web0S|webOS|hpwOS/i.test(userAgent)) {
+      platform = "webOS";
+      isMobile = /Mobile/i.test(userAgent);
+      device = "Unknown";
+    }
+    // Fuchsia detection (Nest Hub smart displays)
+    else if (/Fuchsia/i.test(userAgent)) {
+      platform = "Fuchsia";
+      isMobile = false;
+      device = "Unknown";
+    }
+    // FreeBSD detection
+    else if (/FreeBSD/i.test(userAgent)) {
+      platform = "FreeBSD";
+      isMobile = false;
+      device = "Desktop PC";
+    }
+    // OpenBSD detection
+    else if (/OpenBSD/i.test(userAgent)) {
+      platform = "OpenBSD";
+      isMobile = false;
+      device = "Desktop PC";
+    }
     // Linux detection
     else if (/Linux/i.test(userAgent)) {
       platform = "Linux";
       isMobile = /Mobile/i.test(userAgent);
       device = isMobile ? "Unknown" : "Desktop PC";
+      distribution = LINUX_DISTRIBUTION_PATTERNS.find(({ pattern }) => pattern.test(userAgent))?.name;
     }
 
     // If no platform was detected, log in development mode
@@ -115,6 +196,8 @@ export function detectDeviceFromUA(navigator: Navigator): DeviceInfo | undefined
       isMobile,
       platform,
       device,
+      ...parsePlatformVersion(userAgent, platform),
+      ...(distribution ? { distribution } : {}),
     };
   } catch (error) {
     // Never throw errors for unrecognized patterns
@@ -125,6 +208,92 @@ export function detectDeviceFromUA(navigator: Navigator): DeviceInfo | undefined
   }
 }
 
+/**
+ * OS versions that browsers report regardless of the actual version
+ * 
+ * - Windows: Windows 11 keeps sending `Windows NT 10.0`
+ * - Mac OS: Safari and Chrome freeze `Mac OS X 10_15_7`, Firefox `10.15`
+ * - iOS: Safari 26 freezes `iPhone OS 18_6`
+ * - Chrome OS: reduced Chrome UAs send `CrOS x86_64 14541.0.0`
+ * 
+ * Android's reduced UA (`Android 10; K`) is recognized by its model token.
+ * 
+ * @see https://www.chromium.org/updates/ua-reduction/ - User-Agent reduction
+ */
+const FROZEN_PLATFORM_VERSIONS: Partial<Record<Platform, string[]>> = {
+  Windows: ['10.0'],
+  'Mac OS': ['10.15.7', '10.15'],
+  iOS: ['18.6'],
+  'Chrome OS': ['14541.0.0'],
+};
+
+/**
+ * Extracts the OS version from a User-Agent string
+ * 
+ * Versions are normalized to dot-separated numbers (`Mac OS X 10_15_7` →
+ * `10.15.7`). Windows reports its NT version (`10.0`, `6.3`), which differs
+ * from the Client Hints `platformVersion` scheme. iPads in desktop mode only
+ * send the frozen Mac OS version.
+ * 
+ * @param userAgent - User-Agent string to analyze
+ * @param platform - Platform detected from the User-Agent string
+ * @returns The OS version and whether it is frozen, or undefined if the UA has no version
+ */
+function parsePlatformVersion(
+  userAgent: string,
+  platform: Platform
+): Pick<DeviceInfo, 'platformVersion' | 'platformVersionFrozen'> | undefined {
+  let match: RegExpMatchArray | null = null;
+
+  switch (platform) {
+    case 'Android':
+      match = userAgent.match(/Android ([0-9.]+)/);
+      break;
+    case 'iOS':
+      match = userAgent.match(/OS ([0-9_]+) like Mac OS X/);
+      if (!match) {
+        // iPad in desktop mode
+        const macMatch = userAgent.match(/Mac OS X ([0-9_.]+)/);
+        return macMatch
+          ? { platformVersion: macMatch[1].replace(/_/g, '.'), platformVersionFrozen: true }
+          : undefined;
+      }
+      break;
+    case 'Windows':
+      match = userAgent.match(/Windows NT ([0-9.]+)/);
+      break;
+    case 'Mac OS':
+      match = userAgent.match(/Mac OS X ([0-9_.]+)/);
+      break;
+    case 'Chrome OS':
+      match = userAgent.match(/CrOS \S+ ([0-9.]+)/);
+      break;
+    case 'HarmonyOS':
+      match = userAgent.match(/(?:OpenHarmony|HarmonyOS) ([0-9.]+)/i);
+      break;
+    case 'KaiOS':
+      match = userAgent.match(/KAIOS\/([0-9.]+)/i);
+      break;
+    case 'Tizen':
+      match = userAgent.match(/Tizen ([0-9.]+)/i);
+      break;
+    case 'webOS':
+      match = userAgent.match(/(?:webOS|hpwOS)\/([0-9.]+)/i);
+      break;
+  }
+
+  if (!match) {
+    return undefined;
+  }
+
+  const platformVersion = match[1].replace(/_/g, '.');
+  const platformVersionFrozen =
+    FROZEN_PLATFORM_VERSIONS[platform]?.includes(platformVersion) === true ||
+    (platform === 'Android' && /Android [0-9.]+; K\)/.test(userAgent));
+
+  return { platformVersion, platformVersionFrozen };
+}
+
 /**
  * Detects device information from Client Hints API
  * 
@@ -146,7 +315,9 @@ export function detectDeviceFromUA(navigator: Navigator): DeviceInfo | undefined
  * }
  * ```
  */
-export function detectDeviceFromClientHints(userAgentData: NavigatorUAData): DeviceInfo {
+export function detectDeviceFromClientHints(
+  userAgentData: Pick<NavigatorUAData, 'mobile' | 'platform'>
+): DeviceInfo {
   try {
     const platform = mapPlatform(userAgentData.platform);
     const isMobile = userAgentData.mobile;
@@ -177,17 +348,32 @@ export function detectDeviceFromClientHints(userAgentData: NavigatorUAData): Dev
  * to our standardized Platform type. Performs case-insensitive matching to handle
  * variations in platform naming across browsers.
  * 
- * @param platformString - Platform string from Client Hints (e.g., "Windows", "macOS", "Linux")
+ * @param platformString - Platform string from Client Hints (e.g., "Windows", "macOS", "Linux", "Fuchsia")
  * @returns Mapped platform type from our Platform enum, or "Unknown" if unrecognized
  */
 function mapPlatform(platformString: string): Platform {
   const platformLower = platformString.toLowerCase();
 
+  // Checked before Android and Linux, which these systems build on
+  if (platformLower.includes('harmonyos') || platformLower.includes('openharmony')) return 'HarmonyOS';
+  if (platformLower.includes('kaios')) return 'KaiOS';
+  if (platformLower.includes('tizen')) return 'Tizen';
+  if (platformLower.includes('webos')) return 'webOS';
+  if (platformLower.includes('fuchsia')) return 'Fuchsia';
+  if (platformLower.includes('freebsd')) return 'FreeBSD';
+  if (platformLower.includes('openbsd')) return 'OpenBSD';
+
   if (platformLower.includes('android')) return 'Android';
   if (platformLower.includes('windows')) return 'Windows';
   if (platformLower.includes('mac')) return 'Mac OS';
   if (platformLower.includes('linux')) return 'Linux';
-  if (platformLower.includes('chrome os') || platformLower.includes('chromeos')) return 'Chrome OS';
+  if (
+    platformLower.includes('chrome os') ||
+    platformLower.includes('chromeos') ||
+    platformLower.includes('chromium os')
+  ) {
+    return 'Chrome OS';
+  }
 
   // iOS detection from platform (though iOS doesn't support Client Hints yet)
   if (platformLower.includes('ios') || platformLower.includes('iphone') || platformLower.includes('ipad')) {
@@ -298,15 +484,27 @@ export function getDeviceTypeClassification(
  * ```
  */
 export function isIPad(navigator: Navigator): boolean {
-  const userAgent = navigator.userAgent;
+  return isIPadUA(navigator.userAgent, navigator.maxTouchPoints);
+}
 
+/**
+ * Checks if a raw User-Agent string belongs to an iPad (including modern iPads)
+ * 
+ * String-based counterpart of `isIPad`. Modern iPads can only be recognized
+ * when `maxTouchPoints` is provided.
+ * 
+ * @param userAgent - User-Agent string to analyze
+ * @param maxTouchPoints - Optional `navigator.maxTouchPoints` value of the client
+ * @returns true if device is an iPad (any generation), false otherwise
+ */
+export function isIPadUA(userAgent: string, maxTouchPoints?: number): boolean {
   // Older iPads explicitly identify as iPad
   if (/iPad/i.test(userAgent)) {
     return true;
   }
 
   // Modern iPads (iPadOS 13+) masquerade as Mac with touch support
-  if (/Macintosh/i.test(userAgent) && navigator.maxTouchPoints && navigator.maxTouchPoints > 1) {
+  if (/Macintosh/i.test(userAgent) && maxTouchPoints && maxTouchPoints > 1) {
     return true;
   }
 
@@ -0,0 +1,115 @@
+import type { Embedding } from '../types';
+import { BROWSER_PATTERNS } from '../constants/patterns';
+import { parseDeviceFromUA } from './device';
+
+/**
+ * Referrer of pages opened by an Android app in a Custom Tab or TWA
+ */
+const ANDROID_APP_REFERRER = 'android-app://';
+
+/**
+ * Detects how the current page is embedded
+ *
+ * WebViews are recognized from the User-Agent string (see `parseEmbedding`).
+ * Chrome Custom Tabs and Trusted Web Activities use the regular Chrome
+ * User-Agent, but the opening app is reported as an `android-app://`
+ * referrer. A TWA additionally runs in standalone or fullscreen display
+ * mode, while a Custom Tab shows the browser toolbar.
+ *
+ * The referrer is only set on the page the app opened, so the result is
+ * `'browser'` again after navigating within a Custom Tab.
+ *
+ * @see https://developer.chrome.com/docs/android/trusted-web-activity/query-parameters - Detecting TWAs
+ *
+ * @param navigator - The Navigator object containing the userAgent string
+ * @returns The embedding classification, or undefined if the User-Agent is empty
+ *
+ * @example
+ * ```typescript
+ * const embedding = detectEmbedding(window.navigator);
+ * if (embedding === 'android-webview' || embedding === 'ios-webview') {
+ *   // Use the native sign-in flow of the hybrid app
+ * }
+ * ```
+ */
+export function detectEmbedding(navigator: Navigator): Embedding | undefined {
+  const embedding = parseEmbedding(navigator.userAgent, navigator.maxTouchPoints);
+
+  if (embedding !== 'browser' || typeof document === 'undefined') {
+    return embedding;
+  }
+
+  if (document.referrer.startsWith(ANDROID_APP_REFERRER)) {
+    return isStandaloneDisplayMode() ? 'twa' : 'custom-tab';
+  }
+
+  return embedding;
+}
+
+/**
+ * Detects WebViews from a raw User-Agent string
+ *
+ * - Android System WebView adds a `; wv)` token and reports `Version/4.0`
+ *   before its Chrome version. WebViews before Android 5 lack the `; wv)`
+ *   token; standalone browsers with the same `Version/4.0 Chrome/` format
+ *   (DuckDuckGo, UC Browser, ...) are told apart by their own token.
+ * - iOS WebViews (WKWebView) send the Safari User-Agent without the
+ *   `Safari/` token.
+ *
+ * Custom Tabs and TWAs can't be told apart from Chrome by the User-Agent
+ * string, so they are reported as `'browser'` here; use `detectEmbedding`
+ * in the browser.
+ *
+ * @param userAgent - The User-Agent string to parse
+ * @param maxTouchPoints - Optional `navigator.maxTouchPoints` value, to recognize iPads
+ * @returns The embedding classification, or undefined if the User-Agent is empty
+ *
+ * @example
+ * ```typescript
+ * parseEmbedding('Mozilla/5.0 (Linux; Android 14; Pixel 8; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/120.0.0.0 Mobile Safari/537.36');
+ * // 'android-webview'
+ * ```
+ */
+export function parseEmbedding(userAgent: string, maxTouchPoints?: number): Embedding | undefined {
+  if (!userAgent || typeof userAgent !== 'string') {
+    return undefined;
+  }
+
+  const platform = parseDeviceFromUA(userAgent, maxTouchPoints)?.platform;
+
+  if (platform === 'Android' && (/;\s*wv\)/.test(userAgent) || isLegacyAndroidWebView(userAgent))) {
+    return 'android-webview';
+  }
+
+  if (platform === 'iOS' && /AppleWebKit\//.test(userAgent) && !/Safari\//.test(userAgent)) {
+    return 'ios-webview';
+  }
+
+  return 'browser';
+}
+
+/**
+ * Checks for the `Version/4.0 Chrome/` format of WebViews without the
+ * `; wv)` token, which only counts if no browser other than Chrome is named
+ */
+function isLegacyAndroidWebView(userAgent: string): boolean {
+  if (!/Version\/[\d.]+ Chrome\//.test(userAgent)) {
+    return false;
+  }
+
+  return BROWSER_PATTERNS.find(({ pattern }) => pattern.test(userAgent))?.name === 'Chrome';
+}
+
+/**
+ * Checks whether the page runs without browser UI, as in a TWA
+ */
+function isStandaloneDisplayMode(): boolean {
+  if (typeof window.matchMedia !== 'function') {
+    return false;
+  }
+
+  return (
+    window.matchMedia('(display-mode: standalone)').matches ||
+    window.matchMedia('(display-mode: fullscreen)').matches
+  );
+}
@@ -0,0 +1,56 @@
+import type { InAppBrowserInfo } from '../types';
+import { IN_APP_BROWSER_PATTERNS } from '../constants/patterns';
+
+/**
+ * Detects whether the page is open in the in-app browser of a social app
+ *
+ * In-app browsers are WebViews embedded in apps like Facebook, Instagram or
+ * TikTok. `detectBrowser` reports them as Chrome or Safari, since that's the
+ * engine they use, but OAuth popups, downloads and payments often fail in
+ * them.
+ *
+ * @param navigator - The Navigator object containing the userAgent string
+ * @returns In-app browser name and app version, or undefined outside of in-app browsers
+ *
+ * @example
+ * ```typescript
+ * const inAppBrowser = detectInAppBrowser(window.navigator);
+ * if (inAppBrowser) {
+ *   // Show a hint to open the page in the system browser
+ * }
+ * ```
+ */
+export function detectInAppBrowser(navigator: Navigator): InAppBrowserInfo | undefined {
+  return parseInAppBrowser(navigator.userAgent);
+}
+
+/**
+ * Detects an in-app browser from a raw User-Agent string
+ *
+ * Recognizes the FBAN/FBAV (Facebook), Instagram, musical_ly/BytedanceWebview
+ * (TikTok), LinkedInApp, MicroMessenger (WeChat), Line and Snapchat tokens.
+ *
+ * @param userAgent - The User-Agent string to parse
+ * @returns In-app browser name and app version, or undefined outside of in-app browsers
+ *
+ * @example
+ * ```typescript
+ * parseInAppBrowser('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) ... [FBAN/FBIOS;FBAV/440.0.0.31.106;...]');
+ * // { name: 'Facebook', version: '440.0.0.31.106' }
+ * ```
+ */
+export function parseInAppBrowser(userAgent: string): InAppBrowserInfo | undefined {
+  if (!userAgent || typeof userAgent !== 'string') {
+    return undefined;
+  }
+
+  const match = IN_APP_BROWSER_PATTERNS.find(({ pattern }) => pattern.test(userAgent));
+
+  if (!match) {
+    return undefined;
+  }
+
+  const version = match.versionPattern ? userAgent.match(match.versionPattern)?.[1] : undefined;
+
+  return { name: match.name, version };
+}
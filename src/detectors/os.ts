@@ -0,0 +1,141 @@
+import type { OSInfo, Platform } from '../types';
+import {
+  MACOS_VERSION_NAMES,
+  WINDOWS_11_MIN_PLATFORM_VERSION,
+  WINDOWS_NT_VERSION_NAMES,
+  WINDOWS_PLATFORM_VERSION_NAMES,
+} from '../constants/os';
+import { parseDeviceFromUA } from './device';
+
+/**
+ * Detects the operating system from the User-Agent string
+ *
+ * Used when Client Hints are not available (Firefox, Safari). Frozen or
+ * reduced versions (see `DeviceInfo.platformVersionFrozen`) are reported
+ * with `versionFrozen: true` and without a `versionName`.
+ *
+ * @param navigator - The Navigator object containing userAgent and maxTouchPoints
+ * @returns OS name, version and version name, or undefined if the User-Agent is empty
+ *
+ * @example
+ * ```typescript
+ * const os = detectOS(window.navigator);
+ * console.log(os?.versionName); // "macOS Sonoma"
+ * ```
+ */
+export function detectOS(navigator: Navigator): OSInfo | undefined {
+  return parseOS(navigator.userAgent, navigator.maxTouchPoints);
+}
+
+/**
+ * Detects the operating system from a raw User-Agent string
+ *
+ * Windows versions are looked up by their NT version, so Windows 11 can't be
+ * recognized here; it reports the frozen `Windows NT 10.0`.
+ *
+ * @param userAgent - The User-Agent string to parse
+ * @param maxTouchPoints - Optional `navigator.maxTouchPoints` value, to recognize iPads
+ * @returns OS name, version and version name, or undefined if the User-Agent is empty
+ *
+ * @example
+ * ```typescript
+ * parseOS('Mozilla/5.0 (Windows NT 6.1; Win64; x64; rv:115.0) Gecko/20100101 Firefox/115.0');
+ * // { name: 'Windows', version: '6.1', versionName: 'Windows 7' }
+ * ```
+ */
+export function parseOS(userAgent: string, maxTouchPoints?: number): OSInfo | undefined {
+  if (!userAgent || typeof userAgent !== 'string') {
+    return undefined;
+  }
+
+  const device = parseDeviceFromUA(userAgent, maxTouchPoints);
+
+  if (!device) {
+    return undefined;
+  }
+
+  const { platform, platformVersion, platformVersionFrozen } = device;
+
+  if (!platformVersion) {
+    return { name: platform };
+  }
+
+  if (platformVersionFrozen) {
+    return { name: platform, version: platformVersion, versionFrozen: true };
+  }
+
+  return {
+    name: platform,
+    version: platformVersion,
+    versionName: getVersionName(platform, platformVersion, 'user-agent-string'),
+  };
+}
+
+/**
+ * Resolves the operating system from Client Hints
+ *
+ * The high-entropy `platformVersion` is preferred; on Windows it tells
+ * Windows 11 (13.0.0 and higher) apart from Windows 10. Without it, the
+ * version falls back to the User-Agent string, as long as it reports the
+ * same platform.
+ *
+ * @see https://learn.microsoft.com/en-us/microsoft-edge/web-platform/how-to-detect-win11 - Detecting Windows 11
+ *
+ * @param platform - Platform detected from Client Hints
+ * @param platformVersion - Optional high-entropy `platformVersion`
+ * @param userAgent - Optional User-Agent string for the fallback
+ * @returns OS name, version and version name
+ *
+ * @example
+ * ```typescript
+ * resolveOS('Windows', '15.0.0');
+ * // { name: 'Windows', version: '15.0.0', versionName: 'Windows 11' }
+ * ```
+ */
+export function resolveOS(platform: Platform, platformVersion?: string, userAgent?: string): OSInfo {
+  if (platformVersion) {
+    return {
+      name: platform,
+      version: platformVersion,
+      versionName: getVersionName(platform, platformVersion, 'client-hints'),
+    };
+  }
+
+  const fromUA = userAgent ? parseOS(userAgent) : undefined;
+
+  return fromUA?.name === platform ? fromUA : { name: platform };
+}
+
+/**
+ * Maps an OS version to its marketing name, e.g. "Windows 11" or "macOS Sonoma"
+ */
+function getVersionName(
+  platform: Platform,
+  version: string,
+  source: 'client-hints' | 'user-agent-string'
+): string | undefined {
+  const [major, minor = '0'] = version.split('.');
+
+  if (!/^\d+$/.test(major)) {
+    return undefined;
+  }
+
+  switch (platform) {
+    case 'Windows':
+      if (source === 'user-agent-string') {
+        return WINDOWS_NT_VERSION_NAMES[`${major}.${minor}`];
+      }
+      if (Number(major) >= WINDOWS_11_MIN_PLATFORM_VERSION) {
+        return 'Windows 11';
+      }
+      return Number(major) > 0 ? 'Windows 10' : WINDOWS_PLATFORM_VERSION_NAMES[`${major}.${minor}`];
+    case 'Mac OS':
+      return MACOS_VERSION_NAMES[major === '10' ? `10.${minor}` : major];
+    case 'iOS':
+      return `iOS ${major}`;
+    case 'Android':
+      return `Android ${major}`;
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,106 @@
+import type { ShellInfo } from '../types';
+import { SHELL_PATTERNS } from '../constants/patterns';
+
+/**
+ * Globals exposed by the supported app shells
+ */
+interface ShellGlobals {
+  electron?: unknown;
+  __TAURI__?: unknown;
+  __TAURI_INTERNALS__?: unknown;
+  Capacitor?: { isNativePlatform?: () => boolean };
+  cordova?: { version?: string };
+  nw?: unknown;
+}
+
+/**
+ * Detects the app shell the web app runs in
+ *
+ * Checks the well-known globals of each shell first, then falls back to the
+ * User-Agent tokens (see `parseShell`):
+ *
+ * - Electron: `process.versions.electron` (with node integration) or a
+ *   `window.electron` preload API
+ * - Tauri: `window.__TAURI__` (v1, or `withGlobalTauri`) or `window.__TAURI_INTERNALS__` (v2)
+ * - Capacitor: `window.Capacitor` on a native platform (not the web build)
+ * - Cordova: `window.cordova`
+ * - NW.js: `process.versions.nw` or `window.nw`
+ *
+ * @param navigator - The Navigator object containing the userAgent string
+ * @returns Shell name and version (when known), or undefined in regular browsers
+ *
+ * @example
+ * ```typescript
+ * const shell = detectShell(window.navigator);
+ * if (!shell) {
+ *   // Show the "install desktop app" promo
+ * }
+ * ```
+ */
+export function detectShell(navigator: Navigator): ShellInfo | undefined {
+  const fromUA = parseShell(navigator.userAgent);
+  const globals = (typeof window !== 'undefined' ? window : {}) as ShellGlobals;
+  const versions: Record<string, string | undefined> | undefined =
+    typeof process !== 'undefined' ? process.versions : undefined;
+
+  if (versions?.electron || globals.electron) {
+    return { name: 'Electron', version: versions?.electron ?? getVersion(fromUA, 'Electron') };
+  }
+
+  if (versions?.nw || globals.nw) {
+    return { name: 'NW.js', version: versions?.nw ?? getVersion(fromUA, 'NW.js') };
+  }
+
+  if (globals.__TAURI__ || globals.__TAURI_INTERNALS__) {
+    return { name: 'Tauri', version: getVersion(fromUA, 'Tauri') };
+  }
+
+  if (globals.Capacitor?.isNativePlatform?.()) {
+    return { name: 'Capacitor', version: getVersion(fromUA, 'Capacitor') };
+  }
+
+  if (globals.cordova) {
+    return { name: 'Cordova', version: globals.cordova.version ?? getVersion(fromUA, 'Cordova') };
+  }
+
+  return fromUA;
+}
+
+/**
+ * Detects an app shell from a raw User-Agent string
+ *
+ * Electron adds an `Electron/<version>` token by default. Tauri, Capacitor,
+ * Cordova and NW.js are only recognized when the app appends a
+ * `<Shell>/<version>` token to its User-Agent.
+ *
+ * @param userAgent - The User-Agent string to parse
+ * @returns Shell name and version, or undefined if no shell token is present
+ *
+ * @example
+ * ```typescript
+ * parseShell('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) MyApp/2.1.0 Chrome/120.0.6099.56 Electron/28.0.0 Safari/537.36');
+ * // { name: 'Electron', version: '28.0.0' }
+ * ```
+ */
+export function parseShell(userAgent: string): ShellInfo | undefined {
+  if (!userAgent || typeof userAgent !== 'string') {
+    return undefined;
+  }
+
+  const match = SHELL_PATTERNS.find(({ pattern }) => pattern.test(userAgent));
+
+  if (!match) {
+    return undefined;
+  }
+
+  const version = match.versionPattern ? userAgent.match(match.versionPattern)?.[1] : undefined;
+
+  return { name: match.name, version };
+}
+
+/**
+ * Returns the User-Agent version of a shell, if the token belongs to it
+ */
+function getVersion(shell: ShellInfo | undefined, name: ShellInfo['name']): string | undefined {
+  return shell?.name === name ? shell.version : undefined;
+}
@@ -1,11 +1,29 @@
-import type { BrowserInfo, DeviceInfo, RenderingEngineInfo, BrowserName } from "../types";
+import type {
+  Agent,
+  BrowserInfo,
+  DeviceInfo,
+  RenderingEngineInfo,
+  RenderingEngine,
+  BrowserName,
+  ParseUserAgentOptions,
+} from "../types";
 import {
   BROWSER_PATTERNS,
   CHROMIUM_BROWSERS,
+  DUAL_ENGINE_BROWSERS,
+  EDGEHTML_BROWSERS,
   GECKO_BROWSERS,
+  IOS_USER_AGENT_PATTERN,
+  PRESTO_BROWSERS,
+  TRIDENT_BROWSERS,
   WEBKIT_BROWSERS,
 } from "../constants/patterns";
-import { detectDeviceFromUA } from "./device";
+import { detectDeviceFromUA, getDeviceTypeClassification, parseDeviceFromUA } from "./device";
+import { parseBot } from "./bot";
+import { parseInAppBrowser } from "./inAppBrowser";
+import { parseEmbedding } from "./embedding";
+import { parseShell } from "./shell";
+import { parseOS } from "./os";
 
 /**
  * Detects browser from User-Agent string
@@ -34,16 +52,13 @@ export function detectBrowser(navigator: Navigator): BrowserInfo | undefined {
   try {
     const userAgent = navigator.userAgent;
 
-    // Handle empty or invalid user agent strings
-    if (!userAgent || typeof userAgent !== 'string') {
-      if (process.env.NODE_ENV === 'development') {
-        console.warn('Invalid or empty User-Agent string');
-      }
-      return undefined;
-    }
-
     // Special case: Brave detection via navigator.brave API
-    if ("brave" in navigator && typeof (navigator as any).brave?.isBrave === "function") {
+    if (
+      userAgent &&
+      typeof userAgent === 'string' &&
+      "brave" in navigator &&
+      typeof (navigator as any).brave?.isBrave === "function"
+    ) {
       // Try to extract version from Chrome version in UA string
       const chromeMatch = userAgent.match(/Chrome\/([0-9.]+)/);
       return {
@@ -52,6 +67,42 @@ export function detectBrowser(navigator: Navigator): BrowserInfo | undefined {
       };
     }
 
+    return parseBrowser(userAgent);
+  } catch (error) {
+    // Never throw errors for unrecognized patterns
+    if (process.env.NODE_ENV === 'development') {
+      console.warn('Error detecting browser:', error);
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Parses browser information from a raw User-Agent string
+ * 
+ * String-based counterpart of `detectBrowser` that does not need a Navigator,
+ * which makes it usable on the server (e.g. with a request's `User-Agent`
+ * header). Brave cannot be identified from the UA string alone, since it
+ * only exposes itself through `navigator.brave`.
+ * 
+ * @param userAgent - The User-Agent string to parse
+ * @returns Browser information with name and version, or undefined if unrecognized
+ * 
+ * @example
+ * ```typescript
+ * const browser = parseBrowser(request.headers['user-agent']);
+ * ```
+ */
+export function parseBrowser(userAgent: string): BrowserInfo | undefined {
+  try {
+    // Handle empty or invalid user agent strings
+    if (!userAgent || typeof userAgent !== 'string') {
+      if (process.env.NODE_ENV === 'development') {
+        console.warn('Invalid or empty User-Agent string');
+      }
+      return undefined;
+    }
+
     // Iterate through browser patterns in order
     for (const { name, pattern, versionPattern } of BROWSER_PATTERNS) {
       if (pattern.test(userAgent)) {
@@ -74,6 +125,11 @@ export function detectBrowser(navigator: Navigator): BrowserInfo | undefined {
           continue;
         }
 
+        // Special handling for Internet Explorer - old Opera versions spoof MSIE
+        if (name === "Internet Explorer" && /Opera/.test(userAgent)) {
+          continue;
+        }
+
         // Extract version
         let version = "Unknown";
         if (versionPattern) {
@@ -83,6 +139,23 @@ export function detectBrowser(navigator: Navigator): BrowserInfo | undefined {
           }
         }
 
+        // IE in Compatibility View (incl. IE mode in Edge) reports an older
+        // MSIE token; the Trident version gives the real IE version
+        if (name === "Internet Explorer") {
+          const tridentMatch = userAgent.match(/Trident\/([0-9]+)/);
+          if (tridentMatch) {
+            version = `${Number(tridentMatch[1]) + 4}.0`;
+          }
+        }
+
+        // Opera 10+ froze the Opera/ token at 9.80 and reports its version in Version/
+        if (name === "Opera12-") {
+          const operaVersionMatch = userAgent.match(/Version\/([0-9.]+)/);
+          if (operaVersionMatch) {
+            version = operaVersionMatch[1];
+          }
+        }
+
         return {
           name,
           version,
@@ -109,11 +182,17 @@ export function detectBrowser(navigator: Navigator): BrowserInfo | undefined {
  * Detects rendering engine from browser information and User-Agent string
  * 
  * Maps browsers to their rendering engines:
+ * - Every browser on iOS/iPadOS (incl. Chrome, Firefox, Edge) → WebKit
  * - Chromium-based browsers (Chrome, Edge, Brave, Opera, Vivaldi) → Blink
  * - Firefox, Seamonkey → Gecko
+ * - Firefox Focus → Blink (WebView builds with a Chrome/ token) or Gecko
  * - Safari → WebKit
+ * - Internet Explorer → Trident
+ * - Edge Legacy → EdgeHTML
+ * - Opera 12- → Presto
  * 
- * Note: Modern Edge uses Blink, not EdgeHTML. EdgeHTML was only used in legacy Edge.
+ * Note: Modern Edge uses Blink, not EdgeHTML. EdgeHTML was only used in legacy Edge,
+ * whose engine version is the `Edge/` token (e.g. 18.17763).
  * 
  * @see https://en.wikipedia.org/wiki/Browser_engine - Browser engine overview
  * 
@@ -130,21 +209,62 @@ export function detectBrowser(navigator: Navigator): BrowserInfo | undefined {
 export function detectRenderingEngine(
   browser: BrowserName | undefined,
   navigator?: Navigator
+): RenderingEngineInfo | undefined {
+  return parseRenderingEngine(browser, navigator?.userAgent);
+}
+
+/**
+ * Parses rendering engine information from a browser name and raw User-Agent string
+ * 
+ * String-based counterpart of `detectRenderingEngine` that does not need a Navigator.
+ * 
+ * @param browser - Browser name to map to rendering engine
+ * @param userAgent - Optional User-Agent string for version extraction
+ * @returns Rendering engine information with name and version, or undefined if unrecognized
+ * 
+ * @example
+ * ```typescript
+ * const engine = parseRenderingEngine('Firefox', userAgent);
+ * console.log(engine?.name); // "Gecko"
+ * ```
+ */
+export function parseRenderingEngine(
+  browser: BrowserName | undefined,
+  userAgent: string = ""
 ): RenderingEngineInfo | undefined {
   try {
     if (!browser) {
       return undefined;
     }
 
-    const userAgent = navigator?.userAgent || "";
-
     // Map browser to rendering engine
-    let engineName: "Blink" | "Gecko" | "WebKit" | undefined;
+    let engineName: RenderingEngine | undefined;
 
-    if (CHROMIUM_BROWSERS.includes(browser)) {
-      engineName = "Blink";
+    if (TRIDENT_BROWSERS.includes(browser)) {
+      // Checked before iOS, since IE Mobile claims to be an iPhone
+      engineName = "Trident";
+    } else if (EDGEHTML_BROWSERS.includes(browser)) {
+      engineName = "EdgeHTML";
+    } else if (PRESTO_BROWSERS.includes(browser)) {
+      engineName = "Presto";
+    } else if (IOS_USER_AGENT_PATTERN.test(userAgent)) {
+      // All iOS browsers use WebKit, regardless of their brand
+      engineName = "WebKit";
+    } else if (CHROMIUM_BROWSERS.includes(browser)) {
+      // Blink always sends a Chrome/ token; WebKit UAs without it come from
+      // browsers using the system WebView (e.g. DuckDuckGo on macOS)
+      const isSystemWebKit =
+        /AppleWebKit\//.test(userAgent) && !/Chrom(e|ium)\//.test(userAgent);
+      engineName = isSystemWebKit ? "WebKit" : "Blink";
     } else if (GECKO_BROWSERS.includes(browser)) {
       engineName = "Gecko";
+    } else if (DUAL_ENGINE_BROWSERS.includes(browser)) {
+      // WebView builds send a Chrome/ token; "like Gecko" is not a Gecko/ token
+      if (/Chrom(e|ium)\//.test(userAgent)) {
+        engineName = "Blink";
+      } else if (/rv:|Gecko\//.test(userAgent)) {
+        engineName = "Gecko";
+      }
     } else if (WEBKIT_BROWSERS.includes(browser)) {
       engineName = "WebKit";
     }
@@ -178,6 +298,21 @@ export function detectRenderingEngine(
       if (match) {
         version = match[1];
       }
+    } else if (engineName === "Trident" && userAgent) {
+      const match = userAgent.match(/Trident\/([0-9.]+)/);
+      if (match) {
+        version = match[1];
+      }
+    } else if (engineName === "EdgeHTML" && userAgent) {
+      const match = userAgent.match(/Edge\/([0-9.]+)/);
+      if (match) {
+        version = match[1];
+      }
+    } else if (engineName === "Presto" && userAgent) {
+      const match = userAgent.match(/Presto\/([0-9.]+)/);
+      if (match) {
+        version = match[1];
+      }
     }
 
     return {
@@ -222,3 +357,49 @@ export function detectDevice(navigator: Navigator): DeviceInfo | undefined {
     return undefined;
   }
 }
+
+/**
+ * Parses a raw User-Agent string into an Agent object
+ * 
+ * This is the Navigator-free entry point of the User-Agent string detection path.
+ * It returns the same `Agent` shape as `useUserAgent`, so server code (API routes,
+ * log processors) and the React hook share a single parser.
+ * 
+ * Modern iPads (iPadOS 13+) send a Mac User-Agent string; pass `maxTouchPoints`
+ * when it is known (e.g. forwarded from the client) to tell them apart from Macs.
+ * 
+ * @param userAgent - The User-Agent string to parse (e.g. the `User-Agent` request header)
+ * @param options - Optional parsing options
+ * @param options.maxTouchPoints - The client's `navigator.maxTouchPoints`, if known
+ * @returns Agent data detected from the User-Agent string
+ * 
+ * @example
+ * ```typescript
+ * // In an API route
+ * const agent = parseUserAgent(request.headers.get('user-agent') ?? '');
+ * console.log(agent.browser?.name); // "Firefox"
+ * console.log(agent.deviceType); // "desktop"
+ * ```
+ */
+export function parseUserAgent(
+  userAgent: string,
+  options?: ParseUserAgentOptions
+): Agent {
+  const browser = parseBrowser(userAgent);
+  const device = parseDeviceFromUA(userAgent, options?.maxTouchPoints);
+  const renderingEngine = parseRenderingEngine(browser?.name, userAgent);
+
+  return {
+    browser,
+    device,
+    renderingEngine,
+    detectionMethod: 'user-agent-string',
+    deviceType: device ? getDeviceTypeClassification(device.isMobile, device.device) : undefined,
+    bot: parseBot(userAgent),
+    inAppBrowser: parseInAppBrowser(userAgent),
+    embedding: parseEmbedding(userAgent, options?.maxTouchPoints),
+    shell: parseShell(userAgent),
+    os: parseOS(userAgent, options?.maxTouchPoints),
+    status: 'complete',
+  };
+}
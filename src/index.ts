@@ -44,6 +44,114 @@
  */
 export { useUserAgent } from "./useUserAgent";
 
+/**
+ * React Hook subscribing to a slice of the detected agent
+ * 
+ * The component only re-renders when the selected value changes.
+ * 
+ * @example
+ * ```typescript
+ * const deviceType = useUserAgentSelector((agent) => agent.deviceType);
+ * ```
+ */
+export { useUserAgentSelector } from "./useUserAgent";
+
+/**
+ * Convenience hooks for single agent properties
+ * 
+ * They return non-undefined defaults during SSR and detection
+ * (`false`, `{ name: 'Unknown', version: '' }`, `'Unknown'`, `'desktop'`)
+ * and share the detection of `useUserAgent`.
+ * 
+ * @example
+ * ```typescript
+ * import { useIsMobile, useBrowser, useOS, useRenderingEngine, useDeviceType } from 'react-hook-useagent';
+ * 
+ * const isMobile = useIsMobile();
+ * const { name, version } = useBrowser();
+ * const os = useOS();
+ * const engine = useRenderingEngine();
+ * const deviceType = useDeviceType();
+ * ```
+ */
+export {
+  useIsMobile,
+  useBrowser,
+  useOS,
+  useRenderingEngine,
+  useDeviceType,
+} from "./agentHooks";
+
+/**
+ * React Hook returning a function that requests high-entropy values on demand
+ * 
+ * The values are merged into the shared agent and every useUserAgent
+ * consumer is updated, without re-running low-entropy detection.
+ * 
+ * @example
+ * ```typescript
+ * const requestHighEntropy = useRequestHighEntropy();
+ * await requestHighEntropy(['model', 'architecture']);
+ * ```
+ */
+export { useRequestHighEntropy } from "./useUserAgent";
+
+/**
+ * Context provider that runs user agent detection once per app
+ * 
+ * Every useUserAgent call inside the provider returns the shared agent instead
+ * of running its own detection. useUserAgent keeps working without a provider.
+ * 
+ * @example
+ * ```tsx
+ * <UserAgentProvider options={{ highEntropy: true }}>
+ *   <App />
+ * </UserAgentProvider>
+ * ```
+ */
+export { UserAgentProvider } from "./UserAgentProvider";
+
+/**
+ * Components rendering their children only for matching agents
+ * 
+ * AgentMatch takes browser, minVersion, platform, deviceType and engine
+ * criteria; MobileOnly and DesktopOnly match the device type. The fallback
+ * is rendered until the agent is detected (SSR, hydration).
+ * 
+ * @example
+ * ```tsx
+ * import { AgentMatch, MobileOnly, DesktopOnly } from 'react-hook-useagent';
+ * 
+ * <AgentMatch browser="Safari" minVersion="16.4" fallback={<LegacyPicker />}>
+ *   <DatePicker />
+ * </AgentMatch>
+ * 
+ * <MobileOnly fallback={<Sidebar />}>
+ *   <BottomNavigation />
+ * </MobileOnly>
+ * ```
+ */
+export { AgentMatch, MobileOnly, DesktopOnly } from "./AgentMatch";
+
+/**
+ * Returns the shared user agent store for the given detection options
+ * 
+ * The store exposes subscribe/getSnapshot/getServerSnapshot for use with
+ * React's useSyncExternalStore or outside of React. Detection runs once per
+ * set of options and the snapshot is cached.
+ * 
+ * @example
+ * ```typescript
+ * import { getUserAgentStore } from 'react-hook-useagent';
+ * 
+ * const store = getUserAgentStore();
+ * const unsubscribe = store.subscribe(() => {
+ *   console.log(store.getSnapshot().browser?.name);
+ * });
+ * ```
+ */
+export { getUserAgentStore } from "./userAgentStore";
+
 // ============================================================================
 // Type Exports
 // ============================================================================
@@ -85,21 +193,150 @@ export type { RenderingEngineInfo } from "./types";
  */
 export type { UseUserAgentOptions } from "./types";
 
+/**
+ * Props interface for UserAgentProvider
+ * 
+ * Accepts the same detection options as useUserAgent.
+ */
+export type { UserAgentProviderProps } from "./UserAgentProvider";
+
+/**
+ * Props interfaces for AgentMatch, MobileOnly and DesktopOnly
+ */
+export type { AgentMatchProps, AgentOnlyProps } from "./AgentMatch";
+
+/**
+ * Criteria interface for matchesAgent and AgentMatch
+ * 
+ * Every given criterion must match; arrays match any of their values.
+ */
+export type { AgentMatchCriteria } from "./types";
+
+/**
+ * Version input accepted by isAtLeast
+ * 
+ * A version string or an object with a version, like BrowserInfo.
+ */
+export type { Versioned } from "./utils/version";
+
+/**
+ * Bot information interface and category literal type
+ * 
+ * Categories: search, social-preview, monitor, ai-crawler, http-library
+ */
+export type { BotInfo, BotCategory } from "./types";
+
+/**
+ * In-app browser information interface and name literal type
+ * 
+ * Includes: Facebook, Instagram, TikTok, LinkedIn, WeChat, Line, Snapchat
+ */
+export type { InAppBrowserInfo, InAppBrowserName } from "./types";
+
+/**
+ * Embedding literal type
+ * 
+ * Includes: browser, android-webview, ios-webview, custom-tab, twa
+ */
+export type { Embedding } from "./types";
+
+/**
+ * App shell information interface and name literal type
+ * 
+ * Includes: Electron, Tauri, Capacitor, Cordova, NW.js
+ */
+export type { ShellInfo, ShellName } from "./types";
+
+/**
+ * Operating system information interface
+ * 
+ * Contains the OS name, version, marketing version name
+ * (e.g. "Windows 11", "macOS Sonoma") and the versionFrozen flag
+ */
+export type { OSInfo } from "./types";
+
+/**
+ * External store interface returned by getUserAgentStore
+ * 
+ * Compatible with React's useSyncExternalStore.
+ */
+export type { UserAgentStore } from "./userAgentStore";
+
+/**
+ * Options interface for parseUserAgent
+ * 
+ * Allows passing the client's maxTouchPoints to recognize modern iPads.
+ */
+export type { ParseUserAgentOptions } from "./types";
+
+/**
+ * Request headers type accepted by parseClientHintsHeaders
+ * 
+ * Either a Fetch API Headers object or a plain header object (e.g. Node's req.headers).
+ */
+export type { RequestHeaders } from "./types";
+
+/**
+ * Options interface for the low-level detection functions
+ * 
+ * Extends UseUserAgentOptions with an AbortSignal for cancelling high-entropy requests.
+ */
+export type { DetectionOptions } from "./types";
+
+/**
+ * Options interface for a single on-demand high-entropy request
+ * 
+ * Allows overriding the timeout and cancelling the request through an AbortSignal.
+ */
+export type { HighEntropyRequestOptions } from "./types";
+
+/**
+ * Options interface for getClientHintsHeaders
+ * 
+ * Extends UseUserAgentOptions with Critical-CH and Permissions-Policy delegation settings.
+ */
+export type { ClientHintsHeadersOptions } from "./types";
+
+/**
+ * High-entropy hint name literal type
+ * 
+ * Includes: architecture, model, platform, platformVersion, uaFullVersion
+ */
+export type { HighEntropyHint } from "./types";
+
+/**
+ * Detection status literal type
+ * 
+ * Includes: idle, detecting, low-entropy, complete, failed
+ */
+export type { DetectionStatus } from "./types";
+
 /**
  * Browser name literal type
  * 
  * Includes all supported browsers: Chrome, Edge, Firefox, Safari, Brave,
- * Samsung Internet, Vivaldi, Arc, Opera, and legacy browsers.
+ * Samsung Internet, Vivaldi, Arc, Opera, Opera GX, DuckDuckGo, Yandex, UC Browser,
+ * Huawei Browser, Mi Browser, Whale, QQ Browser, Firefox Focus, and legacy browsers
+ * (Internet Explorer, Edge Legacy, Opera 12-).
  */
 export type { BrowserName } from "./types";
 
 /**
  * Platform literal type
  * 
- * Includes: Android, iOS, Windows, Linux, Mac OS, Chrome OS, Unknown
+ * Includes: Android, iOS, Windows, Linux, Mac OS, Chrome OS, HarmonyOS, KaiOS,
+ * Tizen, webOS, Fuchsia, FreeBSD, OpenBSD, Unknown
  */
 export type { Platform } from "./types";
 
+/**
+ * Linux distribution literal type
+ * 
+ * Includes: Ubuntu, Fedora, Debian, Linux Mint, openSUSE, Arch Linux, Manjaro,
+ * CentOS, Red Hat
+ */
+export type { LinuxDistribution } from "./types";
+
 /**
  * Device literal type
  * 
@@ -107,10 +344,18 @@ export type { Platform } from "./types";
  */
 export type { Device } from "./types";
 
+/**
+ * Device type classification literal type
+ * 
+ * Includes: mobile, tablet, desktop
+ */
+export type { DeviceType } from "./types";
+
 /**
  * Rendering engine literal type
  * 
- * Includes: Blink (Chromium-based), Gecko (Firefox), WebKit (Safari), Unknown
+ * Includes: Blink (Chromium-based), Gecko (Firefox), WebKit (Safari), Trident (Internet Explorer),
+ * EdgeHTML (Edge Legacy), Presto (Opera 12-), Unknown
  */
 export type { RenderingEngine } from "./types";
 
@@ -161,6 +406,26 @@ export type { Browsers } from "./types";
  */
 export { isSSR } from "./utils/ssr";
 
+/**
+ * Serializes an Agent object for embedding into server-rendered HTML
+ * 
+ * Returns JSON that is safe inside a `<script>` tag. Parse it on the client
+ * and pass it as `initialAgent` to useUserAgent or UserAgentProvider, so the
+ * server HTML and the hydrated client render match.
+ * 
+ * @param agent - The agent to serialize
+ * @returns A JSON string safe for inline `<script>` content
+ * 
+ * @example
+ * ```typescript
+ * import { parseClientHintsHeaders, serializeAgent } from 'react-hook-useagent';
+ * 
+ * const agent = parseClientHintsHeaders(request.headers);
+ * const script = `<script id="__USER_AGENT__" type="application/json">${serializeAgent(agent)}</script>`;
+ * ```
+ */
+export { serializeAgent } from "./utils/ssr";
+
 /**
  * Efficiently compares two Agent objects for equality
  * 
@@ -185,6 +450,185 @@ export { isSSR } from "./utils/ssr";
  */
 export { areAgentsEqual } from "./utils/comparison";
 
+/**
+ * Compares two DeviceInfo, BrowserInfo or RenderingEngineInfo objects for equality
+ * 
+ * Shallow comparison helpers for agent slices, e.g. as the isEqual argument
+ * of useUserAgentSelector.
+ * 
+ * @example
+ * ```typescript
+ * import { useUserAgentSelector, areDeviceInfoEqual } from 'react-hook-useagent';
+ * 
+ * const device = useUserAgentSelector((agent) => agent.device, areDeviceInfoEqual);
+ * ```
+ */
+export {
+  areDeviceInfoEqual,
+  areBrowserInfoEqual,
+  areRenderingEngineInfoEqual,
+} from "./utils/comparison";
+
+/**
+ * Checks whether an agent matches the given criteria
+ * 
+ * The same matching as AgentMatch, for use outside of rendering.
+ * 
+ * @example
+ * ```typescript
+ * import { useUserAgent, matchesAgent } from 'react-hook-useagent';
+ * 
+ * const agent = useUserAgent();
+ * const supportsFeature = matchesAgent(agent, { browser: 'Safari', minVersion: '16.4' });
+ * ```
+ */
+export { matchesAgent } from "./utils/matchAgent";
+
+/**
+ * Version comparison utilities
+ * 
+ * Handle dotted ("120.0.6099.109") and underscore ("17_2") versions, missing
+ * segments (16 equals 16.0) and "Unknown" versions, which never satisfy a
+ * minimum or a range.
+ * 
+ * @example
+ * ```typescript
+ * import { useUserAgent, compareVersions, isAtLeast, satisfies } from 'react-hook-useagent';
+ * 
+ * const agent = useUserAgent();
+ * 
+ * compareVersions('17_2', '17.2'); // 0
+ * isAtLeast(agent.browser, '16.4');
+ * satisfies(agent, 'Safari >= 16.4 || Chrome >= 120');
+ * ```
+ */
+export { compareVersions, isAtLeast, satisfies, parseVersion } from "./utils/version";
+
+/**
+ * Detects bots and crawlers from the User-Agent string
+ * 
+ * Returns the bot name and category (search, social-preview, monitor,
+ * ai-crawler, http-library), or undefined for regular browsers. The result
+ * is also available as `agent.bot`.
+ * 
+ * @example
+ * ```typescript
+ * import { parseBot } from 'react-hook-useagent';
+ * 
+ * const bot = parseBot(request.headers.get('user-agent') ?? '');
+ * if (bot?.category === 'ai-crawler') {
+ *   return new Response('Forbidden', { status: 403 });
+ * }
+ * ```
+ */
+export { detectBot, parseBot } from "./detectors/bot";
+
+/**
+ * Detects in-app browsers of social apps from the User-Agent string
+ * 
+ * Recognizes Facebook, Instagram, TikTok, LinkedIn, WeChat, Line and
+ * Snapchat. The result is also available as `agent.inAppBrowser`.
+ * 
+ * @example
+ * ```typescript
+ * import { parseInAppBrowser } from 'react-hook-useagent';
+ * 
+ * const inAppBrowser = parseInAppBrowser(navigator.userAgent);
+ * console.log(inAppBrowser?.name); // "Instagram"
+ * ```
+ */
+export { detectInAppBrowser, parseInAppBrowser } from "./detectors/inAppBrowser";
+
+/**
+ * Builds a URL that opens a page in the system browser
+ * 
+ * Returns an Android intent URL or an iOS `x-safari-` URL, e.g. for an
+ * "Open in browser" link inside in-app browsers.
+ * 
+ * @example
+ * ```typescript
+ * import { useUserAgent, getSystemBrowserUrl } from 'react-hook-useagent';
+ * 
+ * const agent = useUserAgent();
+ * const href = agent.inAppBrowser ? getSystemBrowserUrl(location.href, agent) : undefined;
+ * ```
+ */
+export { getSystemBrowserUrl } from "./utils/systemBrowser";
+
+/**
+ * Detects WebViews, Custom Tabs and Trusted Web Activities
+ * 
+ * Returns browser, android-webview, ios-webview, custom-tab or twa. The
+ * result is also available as `agent.embedding`. Custom Tabs and TWAs can
+ * only be recognized in the browser (detectEmbedding), not from the
+ * User-Agent string alone (parseEmbedding).
+ * 
+ * @example
+ * ```typescript
+ * import { detectEmbedding } from 'react-hook-useagent';
+ * 
+ * if (detectEmbedding(navigator) === 'android-webview') {
+ *   // Use the native sign-in flow
+ * }
+ * ```
+ */
+export { detectEmbedding, parseEmbedding } from "./detectors/embedding";
+
+/**
+ * Detects app shells wrapping the web app
+ * 
+ * Recognizes Electron, Tauri, Capacitor, Cordova and NW.js from their globals
+ * (detectShell) and User-Agent tokens (parseShell). The result is also
+ * available as `agent.shell`.
+ * 
+ * @example
+ * ```typescript
+ * import { detectShell } from 'react-hook-useagent';
+ * 
+ * const shell = detectShell(navigator);
+ * console.log(shell?.name); // "Electron"
+ * ```
+ */
+export { detectShell, parseShell } from "./detectors/shell";
+
+/**
+ * Detects the operating system and its marketing version name
+ * 
+ * detectOS and parseOS read the User-Agent string; resolveOS prefers the
+ * Client Hints platformVersion, which tells Windows 11 apart from Windows 10.
+ * The result is also available as `agent.os`.
+ * 
+ * @example
+ * ```typescript
+ * import { resolveOS } from 'react-hook-useagent';
+ * 
+ * const os = resolveOS('Windows', '15.0.0');
+ * console.log(os.versionName); // "Windows 11"
+ * ```
+ */
+export { detectOS, parseOS, resolveOS } from "./detectors/os";
+
+/**
+ * Generates the response headers for the Client Hints handshake
+ * 
+ * Returns Accept-CH, Vary and optionally Critical-CH and Permissions-Policy
+ * headers for the same hint options that are passed to useUserAgent.
+ * 
+ * @param options - Hint options in the same shape as UseUserAgentOptions
+ * @returns Response headers keyed by header name
+ * 
+ * @example
+ * ```typescript
+ * import { getClientHintsHeaders } from 'react-hook-useagent';
+ * 
+ * const headers = getClientHintsHeaders({ highEntropy: true, hints: ['model'] });
+ * for (const [name, value] of Object.entries(headers)) {
+ *   response.setHeader(name, value);
+ * }
+ * ```
+ */
+export { getClientHintsHeaders } from "./utils/acceptClientHints";
+
 // ============================================================================
 // Detection Function Exports (Advanced Usage)
 // ============================================================================
@@ -213,6 +657,45 @@ export { areAgentsEqual } from "./utils/comparison";
  */
 export { detectFromClientHints } from "./detectors/clientHints";
 
+/**
+ * Parses a raw User-Agent string into an Agent object
+ * 
+ * Navigator-free detection that works on the server, e.g. with the
+ * `User-Agent` request header. Returns the same Agent shape as useUserAgent.
+ * 
+ * @param userAgent - The User-Agent string to parse
+ * @param options - Optional parsing options (maxTouchPoints)
+ * @returns Agent data detected from the User-Agent string
+ * 
+ * @example
+ * ```typescript
+ * import { parseUserAgent } from 'react-hook-useagent';
+ * 
+ * const agent = parseUserAgent(request.headers.get('user-agent') ?? '');
+ * console.log(agent.browser?.name); // "Firefox"
+ * ```
+ */
+export { parseUserAgent } from "./detectors/userAgentString";
+
+/**
+ * Detects browser and device information from Client Hints request headers
+ * 
+ * Server-side counterpart of detectFromClientHints. Reads the Sec-CH-UA-*
+ * request headers and falls back to the User-Agent header when hints are absent.
+ * 
+ * @param headers - Request headers (Fetch Headers or plain object)
+ * @returns Agent data detected from the request headers
+ * 
+ * @example
+ * ```typescript
+ * import { parseClientHintsHeaders } from 'react-hook-useagent';
+ * 
+ * const agent = parseClientHintsHeaders(request.headers);
+ * console.log(agent.detectionMethod); // "client-hints"
+ * ```
+ */
+export { parseClientHintsHeaders } from "./detectors/clientHintsHeaders";
+
 /**
  * Detects browser from User-Agent string
  * 
@@ -33,6 +33,17 @@ export type BrowserName =
   | "Seamonkey"
   | "Opera15+"
   | "Opera12-"
+  | "DuckDuckGo"
+  | "Yandex"
+  | "UC Browser"
+  | "Huawei Browser"
+  | "Mi Browser"
+  | "Whale"
+  | "Opera GX"
+  | "QQ Browser"
+  | "Firefox Focus"
+  | "Internet Explorer"
+  | "Edge Legacy"
   | "Unknown";
 
 export interface BrowserInfo {
@@ -49,8 +60,27 @@ export type Platform =
   | "Linux"
   | "Mac OS"
   | "Chrome OS"
+  | "HarmonyOS"
+  | "KaiOS"
+  | "Tizen"
+  | "webOS"
+  | "Fuchsia"
+  | "FreeBSD"
+  | "OpenBSD"
   | "Unknown";
 
+// Linux distributions named in User-Agent strings (platform stays "Linux")
+export type LinuxDistribution =
+  | "Ubuntu"
+  | "Fedora"
+  | "Debian"
+  | "Linux Mint"
+  | "openSUSE"
+  | "Arch Linux"
+  | "Manjaro"
+  | "CentOS"
+  | "Red Hat";
+
 // Device types
 export type Device =
   | "Android"
@@ -68,6 +98,9 @@ export interface DeviceInfo {
   architecture?: string;
   model?: string;
   platformVersion?: string;
+  /** Set on the User-Agent path; true when the UA reports a frozen or reduced OS version */
+  platformVersionFrozen?: boolean;
+  distribution?: LinuxDistribution;
 }
 
 // Rendering Engine types
@@ -75,6 +108,9 @@ export type RenderingEngine =
   | "Blink"
   | "Gecko"
   | "WebKit"
+  | "Trident"
+  | "EdgeHTML"
+  | "Presto"
   | "Unknown";
 
 export interface RenderingEngineInfo {
@@ -82,10 +118,149 @@ export interface RenderingEngineInfo {
   version: string;
 }
 
+// High entropy hint names accepted by getHighEntropyValues()
+export type HighEntropyHint =
+  | 'architecture'
+  | 'model'
+  | 'platform'
+  | 'platformVersion'
+  | 'uaFullVersion';
+
 // Hook options
 export interface UseUserAgentOptions {
   highEntropy?: boolean;
-  hints?: Array<'architecture' | 'model' | 'platform' | 'platformVersion' | 'uaFullVersion'>;
+  hints?: HighEntropyHint[];
+  initialAgent?: Agent;
+  timeoutMs?: number;
+}
+
+// Options for the low-level detection functions
+export interface DetectionOptions extends UseUserAgentOptions {
+  signal?: AbortSignal;
+}
+
+// Options for a single on-demand high entropy request
+export interface HighEntropyRequestOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+// Options for generating Client Hints response headers
+export interface ClientHintsHeadersOptions extends UseUserAgentOptions {
+  critical?: boolean;
+  delegateTo?: string[];
+}
+
+// Options for parsing a raw User-Agent string
+export interface ParseUserAgentOptions {
+  maxTouchPoints?: number;
+}
+
+// Request headers accepted by the server-side parsers
+// (Fetch API Headers or a plain object such as Node's IncomingHttpHeaders)
+export type RequestHeaders =
+  | Headers
+  | Record<string, string | string[] | undefined>;
+
+// Detection status
+// idle: detection has not run (e.g. during SSR)
+// detecting: detection is about to run, the agent is the server-parsed initialAgent
+// low-entropy: low-entropy data is available, high-entropy values are pending
+// complete: detection finished
+// failed: detection fell back to partial data, see Agent.error
+export type DetectionStatus =
+  | 'idle'
+  | 'detecting'
+  | 'low-entropy'
+  | 'complete'
+  | 'failed';
+
+// Criteria matched against an agent, every given criterion must match
+// (arrays match any of their values, minVersion applies to the browser version)
+export interface AgentMatchCriteria {
+  browser?: BrowserName | BrowserName[];
+  minVersion?: string;
+  platform?: Platform | Platform[];
+  deviceType?: DeviceType | DeviceType[];
+  engine?: RenderingEngine | RenderingEngine[];
+}
+
+// Browserslist browser ID and version of an agent, e.g. { id: 'ios_saf', version: '17.2' }
+export interface BrowserslistTarget {
+  id: string;
+  version: string;
+}
+
+// Device type classification
+export type DeviceType = 'mobile' | 'tablet' | 'desktop';
+
+// Bot categories
+// search: search engine crawlers (Googlebot, Bingbot)
+// social-preview: link preview fetchers (facebookexternalhit, Slackbot, Twitterbot)
+// monitor: uptime and performance monitoring agents
+// ai-crawler: AI training and retrieval crawlers (GPTBot, ClaudeBot, CCBot)
+// http-library: command line tools and HTTP client libraries (curl, python-requests)
+export type BotCategory =
+  | 'search'
+  | 'social-preview'
+  | 'monitor'
+  | 'ai-crawler'
+  | 'http-library';
+
+export interface BotInfo {
+  name: string;
+  category: BotCategory;
+}
+
+// In-app browsers of social apps (embedded WebViews)
+export type InAppBrowserName =
+  | 'Facebook'
+  | 'Instagram'
+  | 'TikTok'
+  | 'LinkedIn'
+  | 'WeChat'
+  | 'Line'
+  | 'Snapchat';
+
+export interface InAppBrowserInfo {
+  name: InAppBrowserName;
+  version?: string;
+}
+
+// How the page is embedded
+// browser: a regular browser tab
+// android-webview: an Android System WebView inside an app
+// ios-webview: a WKWebView (or UIWebView) inside an iOS app
+// custom-tab: a Chrome Custom Tab opened by an Android app
+// twa: a Trusted Web Activity (full-screen Custom Tab of a verified app)
+export type Embedding =
+  | 'browser'
+  | 'android-webview'
+  | 'ios-webview'
+  | 'custom-tab'
+  | 'twa';
+
+// App shells wrapping the web app in a native runtime
+export type ShellName =
+  | 'Electron'
+  | 'Tauri'
+  | 'Capacitor'
+  | 'Cordova'
+  | 'NW.js';
+
+export interface ShellInfo {
+  name: ShellName;
+  version?: string;
+}
+
+// Operating system, e.g. { name: 'Windows', version: '15.0.0', versionName: 'Windows 11' }
+// version: Client Hints platformVersion, or the User-Agent version as a fallback
+// versionFrozen: the User-Agent version is frozen or reduced (no versionName is derived from it)
+export interface OSInfo {
+  name: Platform;
+  version?: string;
+  versionName?: string;
+  versionFrozen?: boolean;
 }
 
 // Main Agent type
@@ -94,7 +269,15 @@ export interface Agent {
   browser?: BrowserInfo;
   renderingEngine?: RenderingEngineInfo;
   detectionMethod?: 'client-hints' | 'user-agent-string' | 'ssr';
-  deviceType?: 'mobile' | 'tablet' | 'desktop';
+  deviceType?: DeviceType;
+  status?: DetectionStatus;
+  error?: Error;
+  entropy?: 'low' | 'high';
+  bot?: BotInfo;
+  inAppBrowser?: InAppBrowserInfo;
+  embedding?: Embedding;
+  shell?: ShellInfo;
+  os?: OSInfo;
 }
 
 // Legacy export for backward compatibility
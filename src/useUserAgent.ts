@@ -1,10 +1,7 @@
-import { useEffect, useState } from "react";
-import type { Agent, UseUserAgentOptions, NavigatorUAData } from "./types";
-import { isSSR } from "./utils/ssr";
-import { areAgentsEqual } from "./utils/comparison";
-import { detectFromClientHints } from "./detectors/clientHints";
-import { detectBrowser, detectDevice, detectRenderingEngine } from "./detectors/userAgentString";
-import { getDeviceTypeClassification } from "./detectors/device";
+import { useContext, useRef, useSyncExternalStore } from "react";
+import type { Agent, UseUserAgentOptions } from "./types";
+import { getUserAgentStore, withInitialAgent } from "./userAgentStore";
+import { UserAgentContext } from "./UserAgentProvider";
 
 /**
  * -----------------------------------------------------------
@@ -16,14 +13,37 @@ import { getDeviceTypeClassification } from "./detectors/device";
  *
  * This hook uses the modern User-Agent Client Hints API when available,
  * falling back to traditional User-Agent string parsing for older browsers.
- * It handles SSR environments gracefully and performs detection exactly
- * once per component mount.
+ * It handles SSR environments gracefully.
+ *
+ * Detection results are kept in a shared store read through
+ * `useSyncExternalStore`: detection runs once per set of options for
+ * the whole page, every consumer sees the same snapshot, and remounts
+ * don't detect again. During server rendering and hydration the hook
+ * returns `options.initialAgent` if given (e.g. parsed from the request
+ * headers with `parseClientHintsHeaders`), otherwise an agent with
+ * `detectionMethod: 'ssr'`.
+ *
+ * With `highEntropy`, the low-entropy agent is returned right away
+ * and upgraded once the high-entropy values arrive; `entropy` tells
+ * which phase the current value is from.
+ *
+ * The returned agent's `status` tells whether detection has not run
+ * yet (`'idle'`), is about to run on top of the `initialAgent`
+ * (`'detecting'`), is waiting for high-entropy values
+ * (`'low-entropy'`), finished (`'complete'`) or fell back to partial
+ * data (`'failed'`, with the cause in `error`).
+ *
+ * When rendered inside a `UserAgentProvider`, the hook reads the
+ * provider's store, and the `options` argument is ignored in favour
+ * of the provider's options.
  *
  * *Type*: React Hook
  *
  * @param options - Optional configuration for detection behavior
  * @param options.highEntropy - Request detailed device information (requires user permission)
  * @param options.hints - Specific high entropy hints to request
+ * @param options.initialAgent - Agent to render on the server and during hydration
+ * @param options.timeoutMs - Milliseconds to wait for high entropy values (default: 5000)
  * @returns The user agent object
  * 
  * @example
@@ -43,73 +63,125 @@ import { getDeviceTypeClassification } from "./detectors/device";
  * -----------------------------------------------------------
  */
 export const useUserAgent = (options?: UseUserAgentOptions) => {
-  const [agent, setAgent] = useState<Agent>({
-    device: undefined,
-    browser: undefined,
-    renderingEngine: undefined,
-  });
+  const store = useUserAgentStore(options);
+
+  return useSyncExternalStore(store.subscribe, store.getSnapshot, store.getServerSnapshot);
+};
+
+/**
+ * -----------------------------------------------------------
+ *  Use User Agent Selector
+ * -----------------------------------------------------------
+ * Subscribes to a slice of the detected agent. The component only
+ * re-renders when the selected value changes, e.g. a component
+ * reading `deviceType` doesn't re-render when the high-entropy
+ * `model` arrives.
+ *
+ * Selected values are compared with `Object.is` by default. For
+ * object slices, pass one of the comparison helpers
+ * (`areDeviceInfoEqual`, `areBrowserInfoEqual`, ...) or a custom
+ * `isEqual` function.
+ *
+ * *Type*: React Hook
+ *
+ * @param selector - Function selecting the slice from the agent
+ * @param isEqual - Optional equality function for selected values
+ * @param options - Optional detection options (ignored inside a `UserAgentProvider`)
+ * @returns The selected value
+ *
+ * @example
+ * ```typescript
+ * const deviceType = useUserAgentSelector((agent) => agent.deviceType);
+ *
+ * const device = useUserAgentSelector((agent) => agent.device, areDeviceInfoEqual);
+ * ```
+ * -----------------------------------------------------------
+ */
+export const useUserAgentSelector = <T>(
+  selector: (agent: Agent) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is,
+  options?: UseUserAgentOptions
+): T => {
+  const store = useUserAgentStore(options);
+  const clientSelection = useRef<Selection<T>>(undefined);
+  const serverSelection = useRef<Selection<T>>(undefined);
 
-  useEffect(() => {
-    // Check if running in SSR environment
-    if (isSSR()) {
-      // Return empty agent data for SSR
-      const ssrAgent: Agent = {
-        device: undefined,
-        browser: undefined,
-        renderingEngine: undefined,
-        detectionMethod: 'ssr',
-      };
-      
-      if (!areAgentsEqual(agent, ssrAgent)) {
-        setAgent(ssrAgent);
-      }
-      return;
+  const select = (agent: Agent, cache: { current: Selection<T> | undefined }) => {
+    const previous = cache.current;
+
+    // Same agent and selector, nothing to compute
+    if (previous && previous.agent === agent && previous.selector === selector) {
+      return previous.value;
     }
 
-    // Detection runs exactly once per mount
-    const detectAgent = async () => {
-      const navigator = window.navigator;
-      let detectedAgent: Agent;
+    const value = selector(agent);
 
-      // Check if Client Hints API is available
-      const userAgentData = (navigator as any).userAgentData as NavigatorUAData | undefined;
-      
-      if (userAgentData) {
-        // Use Client Hints API as primary detection method
-        const result = detectFromClientHints(userAgentData, options);
-        
-        // Handle both sync and async results
-        if (result instanceof Promise) {
-          detectedAgent = await result;
-        } else {
-          detectedAgent = result;
-        }
-      } else {
-        // Fallback to User-Agent string parsing
-        const browser = detectBrowser(navigator);
-        const device = detectDevice(navigator);
-        const renderingEngine = detectRenderingEngine(browser?.name, navigator);
-        
-        detectedAgent = {
-          browser,
-          device,
-          renderingEngine,
-          detectionMethod: 'user-agent-string',
-          deviceType: device ? getDeviceTypeClassification(device.isMobile, device.device) : undefined,
-        };
-      }
+    // Keep the previous reference for equal values to skip re-renders
+    if (previous && isEqual(previous.value, value)) {
+      cache.current = { agent, selector, value: previous.value };
+      return previous.value;
+    }
 
-      // Only update state if agent data has changed
-      if (!areAgentsEqual(agent, detectedAgent)) {
-        setAgent(detectedAgent);
-      }
-    };
+    cache.current = { agent, selector, value };
+    return value;
+  };
 
-    detectAgent();
-    
-    // Empty dependency array ensures detection runs exactly once per mount
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  return useSyncExternalStore(
+    store.subscribe,
+    () => select(store.getSnapshot(), clientSelection),
+    () => select(store.getServerSnapshot(), serverSelection)
+  );
+};
+
+/**
+ * The last selected value and the inputs it was computed from
+ */
+interface Selection<T> {
+  agent: Agent;
+  selector: (agent: Agent) => T;
+  value: T;
+}
+
+/**
+ * -----------------------------------------------------------
+ *  Use Request High Entropy
+ * -----------------------------------------------------------
+ * Returns a function that requests high-entropy values on demand,
+ * e.g. only on the flows that need the device `model`.
+ *
+ * The values are merged into the shared agent, so every component
+ * using `useUserAgent` is updated. Hints that were already received
+ * are not requested again, and low-entropy detection is not re-run.
+ *
+ * *Type*: React Hook
+ *
+ * @param options - Optional detection options selecting the store (ignored inside a `UserAgentProvider`)
+ * @returns A function requesting the given hints and resolving to the updated agent.
+ * Pass `{ signal }` to cancel the request, e.g. when the component unmounts.
+ *
+ * @example
+ * ```typescript
+ * const agent = useUserAgent();
+ * const requestHighEntropy = useRequestHighEntropy();
+ *
+ * useEffect(() => {
+ *   const controller = new AbortController();
+ *   requestHighEntropy(['model', 'architecture'], { signal: controller.signal });
+ *   return () => controller.abort();
+ * }, [requestHighEntropy]);
+ * ```
+ * -----------------------------------------------------------
+ */
+export const useRequestHighEntropy = (options?: UseUserAgentOptions) => {
+  return useUserAgentStore(options).requestHighEntropy;
+};
+
+/**
+ * Returns the store of the nearest `UserAgentProvider`, or the
+ * shared store for the given options if there is no provider.
+ */
+const useUserAgentStore = (options?: UseUserAgentOptions) => {
+  const contextStore = useContext(UserAgentContext);
 
-  return agent;
+  return contextStore ?? withInitialAgent(getUserAgentStore(options), options?.initialAgent);
 };
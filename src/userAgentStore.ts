@@ -0,0 +1,277 @@
+import type {
+  Agent,
+  HighEntropyHint,
+  HighEntropyRequestOptions,
+  UseUserAgentOptions,
+} from "./types";
+import { areAgentsEqual } from "./utils/comparison";
+import { detectAgent, getUserAgentData, SSR_AGENT } from "./detectors/agent";
+import { getHighEntropyData } from "./detectors/clientHints";
+import { DEFAULT_HIGH_ENTROPY_HINTS } from "./constants/clientHints";
+
+/**
+ * -----------------------------------------------------------
+ *  User Agent Store
+ * -----------------------------------------------------------
+ * An external store holding the detected agent, designed to be
+ * consumed through React's `useSyncExternalStore`.
+ *
+ * Detection runs lazily on the first `getSnapshot` call and its
+ * result is cached, so every consumer sees the same snapshot and
+ * remounting components don't trigger a new detection.
+ *
+ * When high-entropy values are requested, the low-entropy agent is
+ * published immediately (`status: 'low-entropy'`) and upgraded
+ * once `getHighEntropyValues` resolves (`entropy: 'high'`).
+ *
+ * `requestHighEntropy` fetches high-entropy values on demand and
+ * updates every subscriber. Hints that were already received are
+ * not requested again. A request cancelled through its `signal`
+ * doesn't update the snapshot; the mount-time request is cancelled
+ * when the last subscriber unsubscribes and resumed on the next
+ * subscription.
+ * -----------------------------------------------------------
+ */
+export interface UserAgentStore {
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => Agent;
+  getServerSnapshot: () => Agent;
+  requestHighEntropy: (
+    hints?: HighEntropyHint[],
+    requestOptions?: HighEntropyRequestOptions
+  ) => Promise<Agent>;
+}
+
+/**
+ * Stores shared across the module, keyed by their detection options
+ */
+const stores = new Map<string, UserAgentStore>();
+
+/**
+ * Server snapshots of initial agents, keyed by the initial agent
+ */
+const detectingAgents = new WeakMap<Agent, Agent>();
+
+/**
+ * -----------------------------------------------------------
+ *  Create User Agent Store
+ * -----------------------------------------------------------
+ * Creates a new, independent store for the given detection
+ * options. Most code should use `getUserAgentStore` instead,
+ * which returns the shared store for the options.
+ *
+ * @param options - Detection options, same as for `useUserAgent`
+ * @returns The user agent store
+ * -----------------------------------------------------------
+ */
+export const createUserAgentStore = (options?: UseUserAgentOptions): UserAgentStore => {
+  const listeners = new Set<() => void>();
+  const receivedHints = new Set<HighEntropyHint>();
+  let snapshot: Agent | undefined;
+  let pendingRequest: Promise<unknown> = Promise.resolve();
+  let initialRequest: AbortController | undefined;
+
+  const setSnapshot = (agent: Agent) => {
+    // Only notify subscribers if agent data has changed
+    if (snapshot && areAgentsEqual(snapshot, agent)) {
+      return;
+    }
+
+    snapshot = agent;
+    listeners.forEach((listener) => listener());
+  };
+
+  const getSnapshot = () => {
+    if (!snapshot) {
+      // Low-entropy detection is synchronous
+      const agent = detectAgent({ ...options, highEntropy: false }) as Agent;
+
+      if (options?.highEntropy && getUserAgentData()) {
+        // Publish the low-entropy agent right away and
+        // upgrade it once the high-entropy values are available
+        snapshot = agent.status ? agent : { ...agent, status: "low-entropy" };
+        startInitialRequest();
+      } else {
+        snapshot = withStatus(agent);
+      }
+    }
+
+    return snapshot;
+  };
+
+  const startInitialRequest = () => {
+    const controller = new AbortController();
+    initialRequest = controller;
+
+    requestHighEntropy(options?.hints, { signal: controller.signal }).then(() => {
+      if (!controller.signal.aborted) {
+        initialRequest = undefined;
+      }
+    });
+  };
+
+  const requestHighEntropy = (
+    hints: HighEntropyHint[] = DEFAULT_HIGH_ENTROPY_HINTS,
+    requestOptions?: HighEntropyRequestOptions
+  ) => {
+    const signal = requestOptions?.signal;
+
+    // Requests run one after another, so each result is merged
+    // into the latest snapshot instead of overwriting another one
+    const request = pendingRequest.then(async () => {
+      const userAgentData = getUserAgentData();
+      const missingHints = hints.filter((hint) => !receivedHints.has(hint));
+
+      // Nothing to request: Client Hints unsupported, values already known or cancelled
+      if (!userAgentData || missingHints.length === 0 || signal?.aborted) {
+        return getSnapshot();
+      }
+
+      // Merge into the current agent without re-running low-entropy detection
+      const { status, error, ...currentAgent } = getSnapshot();
+      const agent = await getHighEntropyData(userAgentData, currentAgent, {
+        hints: missingHints,
+        timeoutMs: requestOptions?.timeoutMs ?? options?.timeoutMs,
+        signal,
+      });
+
+      // Cancelled while pending: skip the update
+      if (signal?.aborted) {
+        return getSnapshot();
+      }
+
+      if (agent.status !== "failed") {
+        missingHints.forEach((hint) => receivedHints.add(hint));
+      }
+
+      setSnapshot(withStatus(agent));
+      return getSnapshot();
+    });
+
+    pendingRequest = request;
+    return request;
+  };
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener);
+
+      // Resume a mount-time request cancelled when the last subscriber left
+      if (initialRequest?.signal.aborted) {
+        startInitialRequest();
+      }
+
+      return () => {
+        listeners.delete(listener);
+
+        // Cancel the mount-time request once nobody is listening anymore
+        if (listeners.size === 0) {
+          initialRequest?.abort();
+        }
+      };
+    },
+    getSnapshot,
+    getServerSnapshot: () => SSR_AGENT,
+    requestHighEntropy,
+  };
+};
+
+/**
+ * -----------------------------------------------------------
+ *  Get User Agent Store
+ * -----------------------------------------------------------
+ * Returns the module-level store shared by every consumer using
+ * the same detection options, creating it on first use.
+ *
+ * @param options - Detection options, same as for `useUserAgent`
+ * @returns The shared user agent store
+ * -----------------------------------------------------------
+ */
+export const getUserAgentStore = (options?: UseUserAgentOptions): UserAgentStore => {
+  const key = getStoreKey(options);
+  let store = stores.get(key);
+
+  if (!store) {
+    store = createUserAgentStore(options);
+    stores.set(key, store);
+  }
+
+  return store;
+};
+
+/**
+ * -----------------------------------------------------------
+ *  With Initial Agent
+ * -----------------------------------------------------------
+ * Returns a view of the store whose server snapshot is the given
+ * agent, e.g. one parsed from the request headers on the server.
+ *
+ * React uses the server snapshot both for server rendering and
+ * while hydrating on the client, so server HTML and the first
+ * client render match. The initial agent is reported with
+ * `status: 'detecting'` until the client switches to the detected
+ * snapshot after hydration.
+ *
+ * @param store - The user agent store
+ * @param initialAgent - The agent to render on the server and during hydration
+ * @returns The store with the initial agent as server snapshot
+ * -----------------------------------------------------------
+ */
+export const withInitialAgent = (
+  store: UserAgentStore,
+  initialAgent: Agent | undefined
+): UserAgentStore => {
+  if (!initialAgent) {
+    return store;
+  }
+
+  const serverSnapshot = getDetectingAgent(initialAgent);
+
+  return {
+    ...store,
+    getServerSnapshot: () => serverSnapshot,
+  };
+};
+
+/**
+ * -----------------------------------------------------------
+ *  Clear User Agent Stores
+ * -----------------------------------------------------------
+ * Drops all shared stores so the next consumer detects again.
+ * Mainly useful in tests that change the mocked navigator.
+ * -----------------------------------------------------------
+ */
+export const clearUserAgentStores = () => {
+  stores.clear();
+};
+
+/**
+ * Marks a finished detection result as complete, unless the
+ * detectors already reported a status (e.g. a failure).
+ */
+const withStatus = (agent: Agent): Agent =>
+  agent.status ? agent : { ...agent, status: "complete" };
+
+/**
+ * Marks an initial agent as detecting. The result is cached, so the
+ * server snapshot stays the same object across renders.
+ */
+const getDetectingAgent = (initialAgent: Agent): Agent => {
+  let agent = detectingAgents.get(initialAgent);
+
+  if (!agent) {
+    agent = { ...initialAgent, status: "detecting" };
+    detectingAgents.set(initialAgent, agent);
+  }
+
+  return agent;
+};
+
+/**
+ * Builds the cache key for the given options. Hints only matter
+ * when high-entropy values are requested.
+ */
+const getStoreKey = (options?: UseUserAgentOptions) =>
+  options?.highEntropy
+    ? `high-entropy:${(options.hints ?? []).join(",")}:${options.timeoutMs ?? ""}`
+    : `low-entropy:${options?.timeoutMs ?? ""}`;
@@ -0,0 +1,96 @@
+import type { ClientHintsHeadersOptions } from '../types';
+import {
+  DEFAULT_HIGH_ENTROPY_HINTS,
+  HIGH_ENTROPY_HINT_HEADERS,
+  LOW_ENTROPY_HINT_HEADERS,
+} from '../constants/clientHints';
+
+/**
+ * Generates the response headers for the Client Hints handshake
+ * 
+ * Browsers only send high-entropy `Sec-CH-UA-*` request headers after the server
+ * opted in via `Accept-CH`. This function derives that opt-in from the same
+ * options that are passed to `useUserAgent`, so server and client request the
+ * same data:
+ * - `Accept-CH`: all hints the server wants to receive on subsequent requests
+ * - `Critical-CH`: hints the browser should retry the request for (only if `critical` is set)
+ * - `Vary`: tells caches that the response depends on the hint headers
+ * - `Permissions-Policy`: delegates high-entropy hints to third-party iframes (only if `delegateTo` is set)
+ * 
+ * Low-entropy hints are always included in `Accept-CH` and `Vary`. High-entropy
+ * hints are only included when `highEntropy` is enabled; without an explicit
+ * `hints` list, the same defaults as `useUserAgent` are used.
+ * 
+ * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Accept-CH - Accept-CH header
+ * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Critical-CH - Critical-CH header
+ * @see https://wicg.github.io/ua-client-hints/#permissions-policy - Permissions Policy integration
+ * 
+ * @param options - Hint options in the same shape as UseUserAgentOptions
+ * @param options.highEntropy - Whether to request high-entropy hints
+ * @param options.hints - Specific high-entropy hints to request
+ * @param options.critical - Whether to mark the requested hints as critical
+ * @param options.delegateTo - Third-party origins to delegate the hints to
+ * @returns Response headers keyed by header name
+ * 
+ * @example
+ * ```typescript
+ * const headers = getClientHintsHeaders({
+ *   highEntropy: true,
+ *   hints: ['model', 'platformVersion'],
+ * });
+ * // {
+ * //   'Accept-CH': 'Sec-CH-UA, Sec-CH-UA-Mobile, Sec-CH-UA-Platform, Sec-CH-UA-Model, Sec-CH-UA-Platform-Version',
+ * //   'Vary': 'Sec-CH-UA, Sec-CH-UA-Mobile, Sec-CH-UA-Platform, Sec-CH-UA-Model, Sec-CH-UA-Platform-Version',
+ * // }
+ * ```
+ */
+export function getClientHintsHeaders(
+  options?: ClientHintsHeadersOptions
+): Record<string, string> {
+  const hints = options?.highEntropy
+    ? options.hints || DEFAULT_HIGH_ENTROPY_HINTS
+    : [];
+
+  const highEntropyHeaders = unique(
+    hints
+      .flatMap(hint => HIGH_ENTROPY_HINT_HEADERS[hint] ?? [])
+      .filter(header => !LOW_ENTROPY_HINT_HEADERS.includes(header))
+  );
+  const allHeaders = [...LOW_ENTROPY_HINT_HEADERS, ...highEntropyHeaders];
+
+  const headers: Record<string, string> = {
+    'Accept-CH': allHeaders.join(', '),
+    'Vary': allHeaders.join(', '),
+  };
+
+  if (options?.critical && highEntropyHeaders.length > 0) {
+    headers['Critical-CH'] = highEntropyHeaders.join(', ');
+  }
+
+  if (options?.delegateTo && options.delegateTo.length > 0 && highEntropyHeaders.length > 0) {
+    const allowlist = ['self', ...options.delegateTo.map(origin => `"${origin}"`)].join(' ');
+    headers['Permissions-Policy'] = highEntropyHeaders
+      .map(header => `${toPermissionsPolicyFeature(header)}=(${allowlist})`)
+      .join(', ');
+  }
+
+  return headers;
+}
+
+/**
+ * Converts a hint request header to its Permissions Policy feature name
+ * (e.g. `Sec-CH-UA-Arch` → `ch-ua-arch`)
+ * 
+ * @param header - Client Hints request header name
+ * @returns Permissions Policy feature name
+ */
+function toPermissionsPolicyFeature(header: string): string {
+  return header.replace(/^Sec-/, '').toLowerCase();
+}
+
+/**
+ * Removes duplicate entries while preserving order
+ */
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
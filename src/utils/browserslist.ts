@@ -0,0 +1,183 @@
+import browserslist from 'browserslist';
+import type { Agent, BrowserslistTarget } from '../types';
+import { BROWSERSLIST_IDS } from '../constants/browserslist';
+import { compareVersions, parseVersion } from './version';
+
+/**
+ * Resolved queries, keyed by query string
+ */
+const queryCache = new Map<string, string[]>();
+
+/**
+ * Maps an agent onto a browserslist browser ID and version
+ *
+ * Uses the browser name and platform to pick the ID (`chrome`, `and_chr`,
+ * `ios_saf`, `samsung`, ...). Every browser on iOS is mapped to `ios_saf`,
+ * with the Safari version or, for other browsers, the iOS version. Android
+ * System WebViews are mapped to `android`.
+ * Chromium-based browsers without an own browserslist entry, and Opera on
+ * Android, are mapped to Chrome with their Blink version.
+ *
+ * @param agent - The detected agent
+ * @returns The browserslist target, or undefined if the agent is not covered
+ *
+ * @example
+ * ```typescript
+ * import { getBrowserslistTarget } from 'react-hook-useagent/browserslist';
+ *
+ * const agent = useUserAgent();
+ * getBrowserslistTarget(agent); // { id: 'ios_saf', version: '17.2' }
+ * ```
+ */
+export function getBrowserslistTarget(agent: Agent): BrowserslistTarget | undefined {
+  const { browser, device, renderingEngine } = agent;
+
+  if (!browser) {
+    return undefined;
+  }
+
+  // Android System WebView has its own browserslist entry with Chrome versions
+  if (agent.embedding === 'android-webview') {
+    const version = renderingEngine?.version ?? browser.version;
+    return parseVersion(version) ? { id: 'android', version } : undefined;
+  }
+
+  if (device?.platform === 'iOS') {
+    const version = browser.name === 'Safari' ? browser.version : device.platformVersion;
+    return parseVersion(version) ? { id: 'ios_saf', version: version! } : undefined;
+  }
+
+  const browserIds = BROWSERSLIST_IDS[browser.name];
+  const ids = (renderingEngine && browserIds?.byEngine?.[renderingEngine.name]) ?? browserIds;
+
+  if (!ids) {
+    return undefined;
+  }
+
+  const isAndroid = device?.platform === 'Android';
+  const id = isAndroid ? ids.android ?? ids.desktop : ids.desktop;
+  const useEngineVersion = ids.engineVersion || (isAndroid && ids.androidEngineVersion);
+  const version = useEngineVersion ? renderingEngine?.version ?? browser.version : browser.version;
+
+  return id && parseVersion(version) ? { id, version } : undefined;
+}
+
+/**
+ * Checks whether an agent is selected by a browserslist query
+ *
+ * The query is resolved offline with the installed browserslist data (an
+ * optional peer dependency), so the same query used for the build targets (e.g. in
+ * `.browserslistrc`) can decide whether to show an "unsupported browser"
+ * notice. Versions of mobile browsers (e.g. `and_chr >= 100`) are resolved
+ * from the desktop data of the same browser (browserslist's
+ * `mobileToDesktop`), since the data only lists their latest versions.
+ *
+ * Versions newer than the highest selected version of the browser also
+ * match, so browsers released after the installed data don't show up as
+ * unsupported. Undetected agents, browsers without browserslist data and
+ * invalid queries never match.
+ *
+ * @param agent - The detected agent
+ * @param query - The browserslist query, e.g. "> 0.5%, last 2 versions, not dead"
+ * @returns true if the agent's browser and version are selected by the query
+ *
+ * @example
+ * ```typescript
+ * import { useUserAgent } from 'react-hook-useagent';
+ * import { matchesBrowserslist } from 'react-hook-useagent/browserslist';
+ *
+ * const agent = useUserAgent();
+ *
+ * if (agent.status === 'complete' && !matchesBrowserslist(agent, '> 0.5%, last 2 versions, not dead')) {
+ *   // Show the unsupported browser banner
+ * }
+ * ```
+ */
+export function matchesBrowserslist(agent: Agent, query: string | string[]): boolean {
+  const target = getBrowserslistTarget(agent);
+
+  if (!target) {
+    return false;
+  }
+
+  const entries = resolveQuery(query)
+    .map((entry) => entry.split(' '))
+    .filter(([id]) => id === target.id)
+    .map(([, versions]) => versions);
+
+  if (entries.length === 0) {
+    return false;
+  }
+
+  return (
+    entries.some((versions) => matchesVersionEntry(target.version, versions)) ||
+    isNewerThanEntries(target.version, entries)
+  );
+}
+
+/**
+ * Resolves a query to browserslist entries ("chrome 120", "ios_saf 17.0-17.1")
+ */
+function resolveQuery(query: string | string[]): string[] {
+  const key = Array.isArray(query) ? query.join(', ') : query;
+  let selected = queryCache.get(key);
+
+  if (!selected) {
+    try {
+      selected = browserslist(query, { mobileToDesktop: true });
+    } catch (error) {
+      // Invalid query: match nothing
+      if (process.env.NODE_ENV === 'development') {
+        console.warn('Browserslist query could not be resolved:', error);
+      }
+      selected = [];
+    }
+
+    queryCache.set(key, selected);
+  }
+
+  return selected;
+}
+
+/**
+ * Checks a version against a browserslist version entry
+ *
+ * Entries are single versions ("120", "16.4"), ranges ("17.0-17.1") or
+ * "all". The version is compared with the precision of the entry, so
+ * "120.0.6099.109" matches "120" and "16.4.1" matches "16.4".
+ */
+function matchesVersionEntry(version: string, entry: string): boolean {
+  if (entry === 'all') {
+    return true;
+  }
+
+  const [low, high = low] = entry.split('-');
+
+  return (
+    compareVersions(truncateVersion(version, low), low) >= 0 &&
+    compareVersions(truncateVersion(version, high), high) <= 0
+  );
+}
+
+/**
+ * Checks whether a version is newer than every selected version entry
+ *
+ * The browserslist data ends at the versions released when it was
+ * published, so browsers released later are matched as long as they are
+ * newer than the highest selected version (browserslist-useragent's
+ * `allowHigherVersions`).
+ */
+function isNewerThanEntries(version: string, entries: string[]): boolean {
+  return entries.every((entry) => {
+    const high = entry.split('-').pop()!;
+    return compareVersions(truncateVersion(version, high), high) > 0;
+  });
+}
+
+/**
+ * Cuts a version down to the number of segments of the reference version
+ */
+function truncateVersion(version: string, reference: string): string {
+  const segments = parseVersion(reference)?.length ?? 1;
+  return (parseVersion(version) ?? []).slice(0, segments).join('.');
+}
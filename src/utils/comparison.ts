@@ -1,4 +1,4 @@
-import type { Agent, DeviceInfo, BrowserInfo, RenderingEngineInfo } from '../types';
+import type { Agent, DeviceInfo, BrowserInfo, RenderingEngineInfo, BotInfo, InAppBrowserInfo, ShellInfo, OSInfo } from '../types';
 
 /**
  * Efficiently compares two Agent objects for equality using shallow comparison
@@ -34,6 +34,10 @@ export function areAgentsEqual(a: Agent, b: Agent): boolean {
   // Compare device type
   if (a.deviceType !== b.deviceType) return false;
   
+  // Compare detection status, error and entropy phase
+  if (a.status !== b.status || a.error !== b.error) return false;
+  if (a.entropy !== b.entropy) return false;
+  
   // Compare device info
   if (!areDeviceInfoEqual(a.device, b.device)) return false;
   
@@ -43,6 +47,21 @@ export function areAgentsEqual(a: Agent, b: Agent): boolean {
   // Compare rendering engine info
   if (!areRenderingEngineInfoEqual(a.renderingEngine, b.renderingEngine)) return false;
   
+  // Compare bot info
+  if (!areBotInfoEqual(a.bot, b.bot)) return false;
+  
+  // Compare in-app browser info
+  if (!areInAppBrowserInfoEqual(a.inAppBrowser, b.inAppBrowser)) return false;
+  
+  // Compare embedding
+  if (a.embedding !== b.embedding) return false;
+  
+  // Compare app shell info
+  if (!areShellInfoEqual(a.shell, b.shell)) return false;
+  
+  // Compare OS info
+  if (!areOSInfoEqual(a.os, b.os)) return false;
+  
   return true;
 }
 
@@ -50,13 +69,14 @@ export function areAgentsEqual(a: Agent, b: Agent): boolean {
  * Compares two DeviceInfo objects for equality
  * 
  * Performs shallow comparison of all DeviceInfo properties including
- * high-entropy values (architecture, model, platformVersion).
+ * high-entropy values (architecture, model, platformVersion) and the
+ * platformVersionFrozen flag and Linux distribution of the User-Agent path.
  * 
  * @param a - First DeviceInfo object
  * @param b - Second DeviceInfo object
  * @returns true if all properties are equal, false otherwise
  */
-function areDeviceInfoEqual(a?: DeviceInfo, b?: DeviceInfo): boolean {
+export function areDeviceInfoEqual(a?: DeviceInfo, b?: DeviceInfo): boolean {
   // Quick reference equality check
   if (a === b) return true;
   
@@ -69,7 +89,9 @@ function areDeviceInfoEqual(a?: DeviceInfo, b?: DeviceInfo): boolean {
     a.device === b.device &&
     a.architecture === b.architecture &&
     a.model === b.model &&
-    a.platformVersion === b.platformVersion
+    a.platformVersion === b.platformVersion &&
+    a.platformVersionFrozen === b.platformVersionFrozen &&
+    a.distribution === b.distribution
   );
 }
 
@@ -83,7 +105,7 @@ function areDeviceInfoEqual(a?: DeviceInfo, b?: DeviceInfo): boolean {
  * @param b - Second BrowserInfo object
  * @returns true if all properties are equal, false otherwise
  */
-function areBrowserInfoEqual(a?: BrowserInfo, b?: BrowserInfo): boolean {
+export function areBrowserInfoEqual(a?: BrowserInfo, b?: BrowserInfo): boolean {
   // Quick reference equality check
   if (a === b) return true;
   
@@ -106,7 +128,7 @@ function areBrowserInfoEqual(a?: BrowserInfo, b?: BrowserInfo): boolean {
  * @param b - Second RenderingEngineInfo object
  * @returns true if all properties are equal, false otherwise
  */
-function areRenderingEngineInfoEqual(a?: RenderingEngineInfo, b?: RenderingEngineInfo): boolean {
+export function areRenderingEngineInfoEqual(a?: RenderingEngineInfo, b?: RenderingEngineInfo): boolean {
   // Quick reference equality check
   if (a === b) return true;
   
@@ -118,3 +140,76 @@ function areRenderingEngineInfoEqual(a?: RenderingEngineInfo, b?: RenderingEngin
     a.version === b.version
   );
 }
+
+/**
+ * Compares two BotInfo objects for equality
+ * 
+ * @param a - First BotInfo object
+ * @param b - Second BotInfo object
+ * @returns true if name and category are equal, false otherwise
+ */
+function areBotInfoEqual(a?: BotInfo, b?: BotInfo): boolean {
+  // Quick reference equality check
+  if (a === b) return true;
+  
+  // Check if both are null/undefined
+  if (!a || !b) return a === b;
+  
+  return a.name === b.name && a.category === b.category;
+}
+
+/**
+ * Compares two InAppBrowserInfo objects for equality
+ * 
+ * @param a - First InAppBrowserInfo object
+ * @param b - Second InAppBrowserInfo object
+ * @returns true if name and version are equal, false otherwise
+ */
+function areInAppBrowserInfoEqual(a?: InAppBrowserInfo, b?: InAppBrowserInfo): boolean {
+  // Quick reference equality check
+  if (a === b) return true;
+  
+  // Check if both are null/undefined
+  if (!a || !b) return a === b;
+  
+  return a.name === b.name && a.version === b.version;
+}
+
+/**
+ * Compares two ShellInfo objects for equality
+ * 
+ * @param a - First ShellInfo object
+ * @param b - Second ShellInfo object
+ * @returns true if name and version are equal, false otherwise
+ */
+function areShellInfoEqual(a?: ShellInfo, b?: ShellInfo): boolean {
+  // Quick reference equality check
+  if (a === b) return true;
+  
+  // Check if both are null/undefined
+  if (!a || !b) return a === b;
+  
+  return a.name === b.name && a.version === b.version;
+}
+
+/**
+ * Compares two OSInfo objects for equality
+ * 
+ * @param a - First OSInfo object
+ * @param b - Second OSInfo object
+ * @returns true if all properties are equal, false otherwise
+ */
+function areOSInfoEqual(a?: OSInfo, b?: OSInfo): boolean {
+  // Quick reference equality check
+  if (a === b) return true;
+  
+  // Check if both are null/undefined
+  if (!a || !b) return a === b;
+  
+  return (
+    a.name === b.name &&
+    a.version === b.version &&
+    a.versionName === b.versionName &&
+    a.versionFrozen === b.versionFrozen
+  );
+}
@@ -0,0 +1,68 @@
+import type { Agent, AgentMatchCriteria } from '../types';
+import { isAtLeast } from './version';
+
+/**
+ * Checks whether an agent matches the given criteria
+ *
+ * Every given criterion must match. Criteria given as arrays match any of
+ * their values, and `minVersion` is compared against the browser version.
+ *
+ * An agent that hasn't been detected yet (e.g. during SSR) has no browser,
+ * device or rendering engine, so it never matches a criterion about them.
+ * Empty criteria match every agent.
+ *
+ * @param agent - The agent to check
+ * @param criteria - The criteria the agent has to match
+ * @returns true if the agent matches all criteria
+ *
+ * @example
+ * ```typescript
+ * import { matchesAgent } from 'react-hook-useagent';
+ *
+ * const agent = useUserAgent();
+ *
+ * if (matchesAgent(agent, { browser: 'Safari', minVersion: '16.4' })) {
+ *   // Safari 16.4 or newer
+ * }
+ *
+ * if (matchesAgent(agent, { deviceType: ['mobile', 'tablet'] })) {
+ *   // Touch-first layout
+ * }
+ * ```
+ */
+export function matchesAgent(agent: Agent, criteria: AgentMatchCriteria): boolean {
+  const { browser, minVersion, platform, deviceType, engine } = criteria;
+
+  if (browser !== undefined && !matchesValue(agent.browser?.name, browser)) {
+    return false;
+  }
+
+  if (minVersion !== undefined && !isAtLeast(agent.browser, minVersion)) {
+    return false;
+  }
+
+  if (platform !== undefined && !matchesValue(agent.device?.platform, platform)) {
+    return false;
+  }
+
+  if (deviceType !== undefined && !matchesValue(agent.deviceType, deviceType)) {
+    return false;
+  }
+
+  if (engine !== undefined && !matchesValue(agent.renderingEngine?.name, engine)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Checks a detected value against a single expected value or a list of them
+ */
+function matchesValue<T>(value: T | undefined, expected: T | T[]): boolean {
+  if (value === undefined) {
+    return false;
+  }
+
+  return Array.isArray(expected) ? expected.includes(value) : value === expected;
+}
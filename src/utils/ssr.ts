@@ -1,3 +1,5 @@
+import type { Agent } from '../types';
+
 /**
  * Checks if code is running in a Server-Side Rendering (SSR) environment
  * 
@@ -42,3 +44,45 @@ export function isSSR(): boolean {
   // Using typeof prevents ReferenceError in SSR environments
   return typeof window === 'undefined';
 }
+
+/**
+ * Serializes an Agent object for embedding into server-rendered HTML
+ * 
+ * Produces a JSON string that is safe to place inside a `<script>` tag: `<`, `>`,
+ * `&` and the line separators U+2028/U+2029 are escaped, so the content can
+ * neither close the script element nor break JavaScript parsing. On the client,
+ * the string can be read back with `JSON.parse` and passed as `initialAgent`.
+ * 
+ * `JSON.stringify` would turn the `error` of a failed detection into `{}`, so
+ * it is serialized as its `name` and `message`.
+ * 
+ * @param agent - The agent to serialize (e.g. from parseClientHintsHeaders)
+ * @returns A JSON string safe for inline `<script>` content
+ * 
+ * @example
+ * ```typescript
+ * // Server
+ * const agent = parseClientHintsHeaders(request.headers);
+ * const html = `<script id="__USER_AGENT__" type="application/json">${serializeAgent(agent)}</script>`;
+ * 
+ * // Client
+ * const initialAgent = JSON.parse(
+ *   document.getElementById('__USER_AGENT__')?.textContent ?? '{}'
+ * );
+ * ```
+ */
+export function serializeAgent(agent: Agent): string {
+  return JSON.stringify(agent, serializeError)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * JSON.stringify replacer keeping the name and message of errors
+ */
+function serializeError(_key: string, value: unknown): unknown {
+  return value instanceof Error ? { name: value.name, message: value.message } : value;
+}
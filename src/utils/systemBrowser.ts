@@ -0,0 +1,60 @@
+import type { Agent } from '../types';
+
+/**
+ * Builds a URL that opens a page in the system browser
+ *
+ * Meant for "Open in browser" links shown inside in-app browsers
+ * (`agent.inAppBrowser`), where OAuth popups, downloads or payments may fail.
+ *
+ * - Android: an `intent://` URL with the VIEW action, which opens the default
+ *   browser. `S.browser_fallback_url` keeps the page loading if the intent
+ *   can't be resolved. URL fragments are dropped, as `#` starts the intent
+ *   parameters.
+ * - iOS: the `x-safari-https://` scheme, which opens Safari (iOS 17+).
+ *
+ * @see https://developer.chrome.com/docs/android/intents - Android intents with Chrome
+ *
+ * @param url - The absolute http(s) URL to open
+ * @param agent - The detected agent
+ * @returns The system browser URL, or undefined on other platforms and for invalid URLs
+ *
+ * @example
+ * ```typescript
+ * import { useUserAgent, getSystemBrowserUrl } from 'react-hook-useagent';
+ *
+ * const agent = useUserAgent();
+ * const systemBrowserUrl = agent.inAppBrowser
+ *   ? getSystemBrowserUrl(window.location.href, agent)
+ *   : undefined;
+ *
+ * if (systemBrowserUrl) {
+ *   // <a href={systemBrowserUrl}>Open in browser</a>
+ * }
+ * ```
+ */
+export function getSystemBrowserUrl(url: string, agent: Agent): string | undefined {
+  let parsedUrl: URL;
+
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    return undefined;
+  }
+
+  if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
+    return undefined;
+  }
+
+  switch (agent.device?.platform) {
+    case 'Android': {
+      const scheme = parsedUrl.protocol.slice(0, -1);
+      const { host, pathname, search } = parsedUrl;
+
+      return `intent://${host}${pathname}${search}#Intent;scheme=${scheme};action=android.intent.action.VIEW;category=android.intent.category.BROWSABLE;S.browser_fallback_url=${encodeURIComponent(parsedUrl.href)};end`;
+    }
+    case 'iOS':
+      return `x-safari-${parsedUrl.href}`;
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,216 @@
+import type { Agent } from '../types';
+
+/**
+ * Anything carrying a version: a raw version string, or an object with a
+ * `version` property such as BrowserInfo or RenderingEngineInfo
+ */
+export type Versioned = string | { version?: string } | undefined;
+
+/**
+ * Comparison operators accepted by `satisfies`
+ */
+const RANGE_OPERATORS: Record<string, (comparison: number) => boolean> = {
+  '>=': (comparison) => comparison >= 0,
+  '>': (comparison) => comparison > 0,
+  '<=': (comparison) => comparison <= 0,
+  '<': (comparison) => comparison < 0,
+  '=': (comparison) => comparison === 0,
+  '==': (comparison) => comparison === 0,
+};
+
+/**
+ * Pattern for a single range, e.g. "Safari >= 16.4" or "Samsung Internet"
+ */
+const RANGE_PATTERN = /^(.+?)(?:\s*(>=|<=|==|>|<|=)\s*([\d._]+))?$/;
+
+/**
+ * Parses a version string into its numeric segments
+ *
+ * Dotted ("120.0.6099.109") and underscore ("17_2") separators are supported.
+ * Non-numeric suffixes of a segment are ignored ("16.4b1" is 16.4).
+ *
+ * @param version - The version string
+ * @returns The numeric segments, or undefined for empty or "Unknown" versions
+ *
+ * @example
+ * ```typescript
+ * parseVersion('17_2'); // [17, 2]
+ * parseVersion('Unknown'); // undefined
+ * ```
+ */
+export function parseVersion(version: string | undefined): number[] | undefined {
+  if (!version || !/^\d/.test(version.trim())) {
+    return undefined;
+  }
+
+  return version
+    .trim()
+    .split(/[._]/)
+    .map((segment) => parseInt(segment, 10) || 0);
+}
+
+/**
+ * Compares two version strings segment by segment
+ *
+ * Missing segments count as 0, so "16" equals "16.0.0". Unknown versions
+ * ("Unknown", empty or undefined) sort before every known version and are
+ * equal to each other.
+ *
+ * @param a - The first version
+ * @param b - The second version
+ * @returns -1 if a is lower, 1 if a is higher, 0 if both are equal
+ *
+ * @example
+ * ```typescript
+ * import { compareVersions } from 'react-hook-useagent';
+ *
+ * compareVersions('120.0.6099.109', '120'); // 1
+ * compareVersions('17_2', '17.2'); // 0
+ * ['16.4', '9.1', '16.10'].sort(compareVersions); // ['9.1', '16.4', '16.10']
+ * ```
+ */
+export function compareVersions(a: string | undefined, b: string | undefined): -1 | 0 | 1 {
+  const first = parseVersion(a);
+  const second = parseVersion(b);
+
+  if (!first || !second) {
+    return first ? 1 : second ? -1 : 0;
+  }
+
+  for (let i = 0; i < Math.max(first.length, second.length); i++) {
+    const difference = (first[i] ?? 0) - (second[i] ?? 0);
+
+    if (difference !== 0) {
+      return difference > 0 ? 1 : -1;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Checks whether a version is at least the given minimum version
+ *
+ * Accepts a raw version string or an object with a `version` property, so
+ * `agent.browser` and `agent.renderingEngine` can be passed directly. Unknown
+ * or missing versions never satisfy a minimum.
+ *
+ * @param versioned - The version, or an object carrying it
+ * @param minVersion - The minimum version
+ * @returns true if the version is known and at least minVersion
+ *
+ * @example
+ * ```typescript
+ * import { isAtLeast } from 'react-hook-useagent';
+ *
+ * const agent = useUserAgent();
+ *
+ * if (isAtLeast(agent.browser, '16.4')) {
+ *   // Browser version 16.4 or newer
+ * }
+ *
+ * // Windows 11 and newer; needs the Client Hints platformVersion
+ * // (`highEntropy: true`), the User-Agent string reports "10.0" for
+ * // Windows 10 and 11
+ * isAtLeast(agent.device?.platformVersion, '13');
+ * ```
+ */
+export function isAtLeast(versioned: Versioned, minVersion: string): boolean {
+  const version = getVersion(versioned);
+
+  if (!parseVersion(version) || !parseVersion(minVersion)) {
+    return false;
+  }
+
+  return compareVersions(version, minVersion) >= 0;
+}
+
+/**
+ * Checks whether an agent satisfies a version range
+ *
+ * A range is a name, optionally followed by an operator (`>=`, `>`, `<=`, `<`,
+ * `=`) and a version, e.g. "Safari >= 16.4". The name is matched against the
+ * browser name, then the rendering engine name (compared with their
+ * versions), then the platform (compared with `device.platformVersion`).
+ * Several ranges can be joined with `||`; the agent has to satisfy one.
+ *
+ * Undetected agents, unknown versions and malformed ranges never match.
+ *
+ * @param agent - The agent to check
+ * @param range - The range, e.g. "Safari >= 16.4 || Chrome >= 120"
+ * @returns true if the agent satisfies one of the ranges
+ *
+ * @example
+ * ```typescript
+ * import { satisfies } from 'react-hook-useagent';
+ *
+ * const agent = useUserAgent();
+ *
+ * satisfies(agent, 'Safari >= 16.4');
+ * satisfies(agent, 'WebKit < 605');
+ * satisfies(agent, 'Samsung Internet');
+ * satisfies(agent, 'Firefox >= 121 || Chrome >= 120');
+ * ```
+ */
+export function satisfies(agent: Agent, range: string): boolean {
+  return range.split('||').some((part) => satisfiesRange(agent, part.trim()));
+}
+
+/**
+ * Checks a single range without `||`
+ */
+function satisfiesRange(agent: Agent, range: string): boolean {
+  const match = range.match(RANGE_PATTERN);
+
+  if (!match) {
+    return false;
+  }
+
+  const [, name, operator, version] = match;
+  const versioned = findVersioned(agent, name.trim());
+
+  if (versioned === undefined) {
+    return false;
+  }
+
+  // A name without version only checks the name
+  if (!operator) {
+    return true;
+  }
+
+  const actual = getVersion(versioned);
+
+  if (!parseVersion(actual) || !parseVersion(version)) {
+    return false;
+  }
+
+  return RANGE_OPERATORS[operator](compareVersions(actual, version));
+}
+
+/**
+ * Finds the agent property a range name refers to
+ */
+function findVersioned(agent: Agent, name: string): Versioned {
+  const normalizedName = name.toLowerCase();
+
+  if (agent.browser?.name.toLowerCase() === normalizedName) {
+    return agent.browser;
+  }
+
+  if (agent.renderingEngine?.name.toLowerCase() === normalizedName) {
+    return agent.renderingEngine;
+  }
+
+  if (agent.device?.platform.toLowerCase() === normalizedName) {
+    return agent.device.platformVersion ?? '';
+  }
+
+  return undefined;
+}
+
+/**
+ * Extracts the version string from a versioned value
+ */
+function getVersion(versioned: Versioned): string | undefined {
+  return typeof versioned === 'string' ? versioned : versioned?.version;
+}